@@ -0,0 +1,163 @@
+// Generates typed contract bindings (src/contracts.ts) from the bundled ABI JSON files.
+// Run with `npm run generate:bindings` after updating an ABI.
+
+const fs = require("fs");
+const path = require("path");
+
+const ROOT = path.join(__dirname, "..");
+const OUTPUT = path.join(ROOT, "src", "contracts.ts");
+
+const CONTRACTS = [
+  {
+    name: "LightGeneralizedTCR",
+    abi: "src/references/LightCurate/LightGeneralizedTCR_ABI.json",
+  },
+  {
+    name: "KlerosLiquid",
+    abi: "src/references/KlerosLiquid/KlerosLiquid_ABI.json",
+  },
+];
+
+/**
+ * Maps a Solidity type to the TypeScript type web3.js returns for it
+ * (numbers are decoded as bigint, bytes as hex strings)
+ */
+function outputType(param) {
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch) {
+    return `${outputType({ ...param, type: arrayMatch[1] })}[]`;
+  }
+  if (param.type === "tuple") {
+    return structType(param.components, outputType);
+  }
+  if (/^u?int\d*$/.test(param.type)) return "bigint";
+  if (param.type === "bool") return "boolean";
+  return "string";
+}
+
+/**
+ * Maps a Solidity type to the TypeScript types web3.js accepts for it
+ */
+function inputType(param) {
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch) {
+    return `${wrap(inputType({ ...param, type: arrayMatch[1] }))}[]`;
+  }
+  if (param.type === "tuple") {
+    return structType(param.components, inputType);
+  }
+  if (/^u?int\d*$/.test(param.type)) return "NumberLike";
+  if (param.type === "bool") return "boolean";
+  return "string";
+}
+
+function wrap(type) {
+  return type.includes("|") ? `(${type})` : type;
+}
+
+function structType(params, mapType) {
+  const fields = params.map(
+    (param, index) => `${param.name || index}: ${mapType(param)};`
+  );
+  return `{ ${fields.join(" ")} }`;
+}
+
+function methodResultType(outputs) {
+  if (outputs.length === 0) return "void";
+  // web3.js unwraps single return values
+  if (outputs.length === 1) return outputType(outputs[0]);
+  return structType(outputs, outputType);
+}
+
+function methodArgs(inputs) {
+  return inputs
+    .map((input, index) => `${input.name || `arg${index}`}: ${inputType(input)}`)
+    .join(", ");
+}
+
+function generateContract({ name, abi: abiPath }) {
+  const abi = JSON.parse(fs.readFileSync(path.join(ROOT, abiPath), "utf8"));
+  const functions = abi.filter((item) => item.type === "function");
+  const events = abi.filter((item) => item.type === "event");
+
+  const methods = functions.map(
+    (fn) =>
+      `  ${fn.name}(${methodArgs(fn.inputs)}): ContractMethod<${methodResultType(fn.outputs || [])}>;`
+  );
+
+  const eventTypes = events.map(
+    (event) => `  ${event.name}: ${structType(event.inputs, outputType)};`
+  );
+
+  return `// ${abiPath}
+
+export interface ${name}Methods {
+${methods.join("\n")}
+}
+
+export interface ${name}Events {
+${eventTypes.join("\n")}
+}
+
+export interface ${name}Contract {
+  methods: ${name}Methods;
+  getPastEvents<E extends keyof ${name}Events>(
+    eventName: E,
+    options?: PastEventOptions
+  ): Promise<EventLog<${name}Events[E]>[]>;
+}
+`;
+}
+
+const header = `// Typed contract bindings generated by scripts/generate-bindings.js from the
+// bundled ABI JSON files. Do not edit by hand, run \`npm run generate:bindings\`.
+
+/**
+ * Numeric values accepted as contract call arguments
+ */
+export type NumberLike = string | number | bigint;
+
+/**
+ * Options accepted when sending, estimating or calling a contract method
+ */
+export interface CallOptions {
+  from?: string;
+  value?: NumberLike;
+  gas?: NumberLike;
+}
+
+/**
+ * A contract method bound to its arguments
+ */
+export interface ContractMethod<TResult> {
+  call(options?: CallOptions, block?: NumberLike | string): Promise<TResult>;
+  estimateGas(options?: CallOptions): Promise<bigint>;
+  encodeABI(): string;
+}
+
+/**
+ * Options accepted by getPastEvents
+ */
+export interface PastEventOptions {
+  filter?: Record<string, unknown>;
+  fromBlock?: NumberLike | string;
+  toBlock?: NumberLike | string;
+}
+
+/**
+ * A decoded event log
+ */
+export interface EventLog<TValues> {
+  event?: string;
+  address: string;
+  blockNumber?: bigint;
+  blockHash?: string;
+  transactionHash?: string;
+  logIndex?: bigint;
+  returnValues: TValues;
+}
+`;
+
+const output = [header, ...CONTRACTS.map(generateContract)].join("\n");
+fs.writeFileSync(OUTPUT, output);
+console.log(`Wrote ${path.relative(ROOT, OUTPUT)}`);
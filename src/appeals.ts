@@ -0,0 +1,43 @@
+import { AppealFeeInput, AppealFees } from "./types";
+
+/**
+ * Computes the amount each side must raise to fund an appeal: the
+ * arbitrator's appeal cost plus a stake proportional to it. The side the
+ * current ruling favors pays the winner stake and the other side the loser
+ * stake. Any other ruling (0 when the arbitrator refused to rule, or a value
+ * outside the registry's two options) has no winner, so both sides pay the
+ * shared stake. Stakes are rounded down, as the contract does. This is a pure
+ * function, see getAppealCost for the on-chain inputs.
+ * @param input The appeal cost, current ruling, stake multipliers and their divisor
+ * @returns The fee of each side in wei
+ */
+export function calculateAppealFees(input: AppealFeeInput): AppealFees {
+  const {
+    appealCost,
+    currentRuling,
+    winnerStakeMultiplier,
+    loserStakeMultiplier,
+    sharedStakeMultiplier,
+    multiplierDivisor,
+  } = input;
+
+  const feeWith = (multiplier: bigint) =>
+    appealCost + (appealCost * multiplier) / multiplierDivisor;
+
+  // Ruling 1 sides with the requester, ruling 2 with the challenger
+  if (currentRuling === 1) {
+    return {
+      requesterAppealFee: feeWith(winnerStakeMultiplier),
+      challengerAppealFee: feeWith(loserStakeMultiplier),
+    };
+  }
+  if (currentRuling === 2) {
+    return {
+      requesterAppealFee: feeWith(loserStakeMultiplier),
+      challengerAppealFee: feeWith(winnerStakeMultiplier),
+    };
+  }
+
+  const sharedFee = feeWith(sharedStakeMultiplier);
+  return { requesterAppealFee: sharedFee, challengerAppealFee: sharedFee };
+}
@@ -0,0 +1,144 @@
+// Chain registry shared by the contract and subgraph layers
+
+export const SUPPORTED_CHAINS = {
+  ETHEREUM_MAINNET: 1,
+  GNOSIS_CHAIN: 100,
+  SEPOLIA: 11155111,
+  GNOSIS_CHIADO: 10200,
+} as const;
+
+/**
+ * A chain ID known to the registry. Chains added with registerChain are
+ * accepted as plain numbers.
+ */
+export type SupportedChainId =
+  (typeof SUPPORTED_CHAINS)[keyof typeof SUPPORTED_CHAINS] | (number & {});
+
+export const DEFAULT_IPFS_GATEWAY = "https://cdn.kleros.link";
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  /**
+   * Light Curate subgraph endpoint. Testnet deployments have no default and
+   * must be set with registerChain or passed as customSubgraphUrl.
+   */
+  subgraphUrl?: string;
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  ipfsGateway: string;
+}
+
+const chainRegistry = new Map<number, ChainConfig>([
+  [
+    SUPPORTED_CHAINS.ETHEREUM_MAINNET,
+    {
+      chainId: SUPPORTED_CHAINS.ETHEREUM_MAINNET,
+      name: "Ethereum Mainnet",
+      rpcUrls: ["https://rpc.ankr.com/eth"],
+      subgraphUrl:
+        "https://gateway.thegraph.com/api/500a3f85051f0de7a90d155df163a09b/subgraphs/id/A5oqWboEuDezwqpkaJjih4ckGhoHRoXZExqUbja2k1NQ",
+      explorerUrl: "https://etherscan.io",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      ipfsGateway: DEFAULT_IPFS_GATEWAY,
+    },
+  ],
+  [
+    SUPPORTED_CHAINS.GNOSIS_CHAIN,
+    {
+      chainId: SUPPORTED_CHAINS.GNOSIS_CHAIN,
+      name: "Gnosis Chain",
+      rpcUrls: ["https://gnosis-pokt.nodies.app"],
+      subgraphUrl:
+        "https://gateway.thegraph.com/api/500a3f85051f0de7a90d155df163a09b/subgraphs/id/9hHo5MpjpC1JqfD3BsgFnojGurXRHTrHWcUcZPPCo6m8",
+      explorerUrl: "https://gnosisscan.io",
+      nativeCurrency: { name: "xDai", symbol: "xDAI", decimals: 18 },
+      ipfsGateway: DEFAULT_IPFS_GATEWAY,
+    },
+  ],
+  [
+    SUPPORTED_CHAINS.SEPOLIA,
+    {
+      chainId: SUPPORTED_CHAINS.SEPOLIA,
+      name: "Sepolia",
+      rpcUrls: ["https://rpc.sepolia.org"],
+      explorerUrl: "https://sepolia.etherscan.io",
+      nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+      ipfsGateway: DEFAULT_IPFS_GATEWAY,
+    },
+  ],
+  [
+    SUPPORTED_CHAINS.GNOSIS_CHIADO,
+    {
+      chainId: SUPPORTED_CHAINS.GNOSIS_CHIADO,
+      name: "Gnosis Chiado",
+      rpcUrls: ["https://rpc.chiadochain.net"],
+      explorerUrl: "https://gnosis-chiado.blockscout.com",
+      nativeCurrency: { name: "Chiado xDai", symbol: "XDAI", decimals: 18 },
+      ipfsGateway: DEFAULT_IPFS_GATEWAY,
+    },
+  ],
+]);
+
+/**
+ * Registers a chain, or updates an existing one (e.g. to set a testnet subgraph URL)
+ * @param config The chain configuration. Fields omitted when updating keep their current value.
+ */
+export function registerChain(
+  config: Partial<ChainConfig> & { chainId: number }
+): void {
+  const existing = chainRegistry.get(config.chainId);
+  const merged = { ...existing, ...config } as ChainConfig;
+
+  if (!merged.name || !merged.rpcUrls || merged.rpcUrls.length === 0) {
+    throw new Error(
+      `Chain ${config.chainId} needs at least a name and one RPC URL`
+    );
+  }
+
+  chainRegistry.set(config.chainId, {
+    ...merged,
+    explorerUrl: merged.explorerUrl || "",
+    nativeCurrency: merged.nativeCurrency || {
+      name: "Ether",
+      symbol: "ETH",
+      decimals: 18,
+    },
+    ipfsGateway: merged.ipfsGateway || DEFAULT_IPFS_GATEWAY,
+  });
+}
+
+/**
+ * Gets the configuration of a registered chain
+ * @param chainId The chain ID
+ * @returns The chain configuration
+ */
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = chainRegistry.get(chainId);
+  if (!config) {
+    throw new Error(
+      `Unsupported chain ID: ${chainId}. Supported chains are: ${getSupportedChainIds().join(", ")}`
+    );
+  }
+  return config;
+}
+
+/**
+ * Checks whether a chain is registered
+ * @param chainId The chain ID
+ */
+export function isSupportedChain(chainId: number): boolean {
+  return chainRegistry.has(chainId);
+}
+
+/**
+ * Gets the IDs of all registered chains
+ */
+export function getSupportedChainIds(): number[] {
+  return Array.from(chainRegistry.keys());
+}
@@ -0,0 +1,202 @@
+// Typed contract bindings generated by scripts/generate-bindings.js from the
+// bundled ABI JSON files. Do not edit by hand, run `npm run generate:bindings`.
+
+/**
+ * Numeric values accepted as contract call arguments
+ */
+export type NumberLike = string | number | bigint;
+
+/**
+ * Options accepted when sending, estimating or calling a contract method
+ */
+export interface CallOptions {
+  from?: string;
+  value?: NumberLike;
+  gas?: NumberLike;
+}
+
+/**
+ * A contract method bound to its arguments
+ */
+export interface ContractMethod<TResult> {
+  call(options?: CallOptions, block?: NumberLike | string): Promise<TResult>;
+  estimateGas(options?: CallOptions): Promise<bigint>;
+  encodeABI(): string;
+}
+
+/**
+ * Options accepted by getPastEvents
+ */
+export interface PastEventOptions {
+  filter?: Record<string, unknown>;
+  fromBlock?: NumberLike | string;
+  toBlock?: NumberLike | string;
+}
+
+/**
+ * A decoded event log
+ */
+export interface EventLog<TValues> {
+  event?: string;
+  address: string;
+  blockNumber?: bigint;
+  blockHash?: string;
+  transactionHash?: string;
+  logIndex?: bigint;
+  returnValues: TValues;
+}
+
+// src/references/LightCurate/LightGeneralizedTCR_ABI.json
+
+export interface LightGeneralizedTCRMethods {
+  MULTIPLIER_DIVISOR(): ContractMethod<bigint>;
+  RULING_OPTIONS(): ContractMethod<bigint>;
+  addItem(_item: string): ContractMethod<void>;
+  addItemDirectly(_item: string): ContractMethod<void>;
+  arbitrationParamsChanges(arg0: NumberLike): ContractMethod<{ arbitrator: string; arbitratorExtraData: string; }>;
+  arbitrator(): ContractMethod<string>;
+  arbitratorDisputeIDToItemID(arg0: string, arg1: NumberLike): ContractMethod<string>;
+  arbitratorExtraData(): ContractMethod<string>;
+  challengePeriodDuration(): ContractMethod<bigint>;
+  challengeRequest(_itemID: string, _evidence: string): ContractMethod<void>;
+  changeArbitrationParams(_arbitrator: string, _arbitratorExtraData: string, _registrationMetaEvidence: string, _clearingMetaEvidence: string): ContractMethod<void>;
+  changeChallengePeriodDuration(_challengePeriodDuration: NumberLike): ContractMethod<void>;
+  changeConnectedTCR(_connectedTCR: string): ContractMethod<void>;
+  changeGovernor(_governor: string): ContractMethod<void>;
+  changeLoserStakeMultiplier(_loserStakeMultiplier: NumberLike): ContractMethod<void>;
+  changeRelayerContract(_relayerContract: string): ContractMethod<void>;
+  changeRemovalBaseDeposit(_removalBaseDeposit: NumberLike): ContractMethod<void>;
+  changeRemovalChallengeBaseDeposit(_removalChallengeBaseDeposit: NumberLike): ContractMethod<void>;
+  changeSharedStakeMultiplier(_sharedStakeMultiplier: NumberLike): ContractMethod<void>;
+  changeSubmissionBaseDeposit(_submissionBaseDeposit: NumberLike): ContractMethod<void>;
+  changeSubmissionChallengeBaseDeposit(_submissionChallengeBaseDeposit: NumberLike): ContractMethod<void>;
+  changeWinnerStakeMultiplier(_winnerStakeMultiplier: NumberLike): ContractMethod<void>;
+  executeRequest(_itemID: string): ContractMethod<void>;
+  fundAppeal(_itemID: string, _side: NumberLike): ContractMethod<void>;
+  getContributions(_itemID: string, _requestID: NumberLike, _roundID: NumberLike, _contributor: string): ContractMethod<bigint[]>;
+  getEvidenceGroupID(_itemID: string, _requestID: NumberLike): ContractMethod<bigint>;
+  getItemInfo(_itemID: string): ContractMethod<{ status: bigint; numberOfRequests: bigint; sumDeposit: bigint; }>;
+  getRequestInfo(_itemID: string, _requestID: NumberLike): ContractMethod<{ disputed: boolean; disputeID: bigint; submissionTime: bigint; resolved: boolean; parties: string[]; numberOfRounds: bigint; ruling: bigint; requestArbitrator: string; requestArbitratorExtraData: string; metaEvidenceID: bigint; }>;
+  getRoundInfo(_itemID: string, _requestID: NumberLike, _roundID: NumberLike): ContractMethod<{ appealed: boolean; amountPaid: bigint[]; hasPaid: boolean[]; feeRewards: bigint; }>;
+  governor(): ContractMethod<string>;
+  initialize(_arbitrator: string, _arbitratorExtraData: string, _connectedTCR: string, _registrationMetaEvidence: string, _clearingMetaEvidence: string, _governor: string, _baseDeposits: NumberLike[], _challengePeriodDuration: NumberLike, _stakeMultipliers: NumberLike[], _relayerContract: string): ContractMethod<void>;
+  items(arg0: string): ContractMethod<{ status: bigint; sumDeposit: bigint; requestCount: bigint; }>;
+  loserStakeMultiplier(): ContractMethod<bigint>;
+  metaEvidenceUpdates(): ContractMethod<bigint>;
+  relayerContract(): ContractMethod<string>;
+  removalBaseDeposit(): ContractMethod<bigint>;
+  removalChallengeBaseDeposit(): ContractMethod<bigint>;
+  removeItem(_itemID: string, _evidence: string): ContractMethod<void>;
+  removeItemDirectly(_itemID: string): ContractMethod<void>;
+  requestsDisputeData(arg0: string, arg1: NumberLike): ContractMethod<{ disputeID: bigint; status: bigint; ruling: bigint; roundCount: bigint; }>;
+  rule(_disputeID: NumberLike, _ruling: NumberLike): ContractMethod<void>;
+  sharedStakeMultiplier(): ContractMethod<bigint>;
+  submissionBaseDeposit(): ContractMethod<bigint>;
+  submissionChallengeBaseDeposit(): ContractMethod<bigint>;
+  submitEvidence(_itemID: string, _evidence: string): ContractMethod<void>;
+  winnerStakeMultiplier(): ContractMethod<bigint>;
+  withdrawFeesAndRewards(_beneficiary: string, _itemID: string, _requestID: NumberLike, _roundID: NumberLike): ContractMethod<void>;
+}
+
+export interface LightGeneralizedTCREvents {
+  ConnectedTCRSet: { _connectedTCR: string; };
+  Contribution: { _itemID: string; _requestID: bigint; _roundID: bigint; _contributor: string; _contribution: bigint; _side: bigint; };
+  Dispute: { _arbitrator: string; _disputeID: bigint; _metaEvidenceID: bigint; _evidenceGroupID: bigint; };
+  Evidence: { _arbitrator: string; _evidenceGroupID: bigint; _party: string; _evidence: string; };
+  ItemStatusChange: { _itemID: string; _updatedDirectly: boolean; };
+  MetaEvidence: { _metaEvidenceID: bigint; _evidence: string; };
+  NewItem: { _itemID: string; _data: string; _addedDirectly: boolean; };
+  RequestSubmitted: { _itemID: string; _evidenceGroupID: bigint; };
+  RewardWithdrawn: { _beneficiary: string; _itemID: string; _request: bigint; _round: bigint; _reward: bigint; };
+  Ruling: { _arbitrator: string; _disputeID: bigint; _ruling: bigint; };
+}
+
+export interface LightGeneralizedTCRContract {
+  methods: LightGeneralizedTCRMethods;
+  getPastEvents<E extends keyof LightGeneralizedTCREvents>(
+    eventName: E,
+    options?: PastEventOptions
+  ): Promise<EventLog<LightGeneralizedTCREvents[E]>[]>;
+}
+
+// src/references/KlerosLiquid/KlerosLiquid_ABI.json
+
+export interface KlerosLiquidMethods {
+  changePinakion(_pinakion: string): ContractMethod<void>;
+  RNBlock(): ContractMethod<bigint>;
+  disputesWithoutJurors(): ContractMethod<bigint>;
+  passPhase(): ContractMethod<void>;
+  governor(): ContractMethod<string>;
+  lastDelayedSetStake(): ContractMethod<bigint>;
+  disputeStatus(_disputeID: NumberLike): ContractMethod<bigint>;
+  passPeriod(_disputeID: NumberLike): ContractMethod<void>;
+  maxDrawingTime(): ContractMethod<bigint>;
+  currentRuling(_disputeID: NumberLike): ContractMethod<bigint>;
+  courts(arg0: NumberLike): ContractMethod<{ parent: bigint; hiddenVotes: boolean; minStake: bigint; alpha: bigint; feeForJuror: bigint; jurorsForCourtJump: bigint; }>;
+  execute(_disputeID: NumberLike, _appeal: NumberLike, _iterations: NumberLike): ContractMethod<void>;
+  ALPHA_DIVISOR(): ContractMethod<bigint>;
+  castVote(_disputeID: NumberLike, _voteIDs: NumberLike[], _choice: NumberLike, _salt: NumberLike): ContractMethod<void>;
+  changeSubcourtMinStake(_subcourtID: NumberLike, _minStake: NumberLike): ContractMethod<void>;
+  getSubcourt(_subcourtID: NumberLike): ContractMethod<{ children: bigint[]; timesPerPeriod: bigint[]; }>;
+  appeal(_disputeID: NumberLike, _extraData: string): ContractMethod<void>;
+  onTransfer(_from: string, _to: string, _amount: NumberLike): ContractMethod<boolean>;
+  disputes(arg0: NumberLike): ContractMethod<{ subcourtID: bigint; arbitrated: string; numberOfChoices: bigint; period: bigint; lastPeriodChange: bigint; drawsInRound: bigint; commitsInRound: bigint; ruled: boolean; }>;
+  changeSubcourtTimesPerPeriod(_subcourtID: NumberLike, _timesPerPeriod: NumberLike[]): ContractMethod<void>;
+  changeSubcourtJurorFee(_subcourtID: NumberLike, _feeForJuror: NumberLike): ContractMethod<void>;
+  changeSubcourtAlpha(_subcourtID: NumberLike, _alpha: NumberLike): ContractMethod<void>;
+  castCommit(_disputeID: NumberLike, _voteIDs: NumberLike[], _commit: string): ContractMethod<void>;
+  RN(): ContractMethod<bigint>;
+  RNGenerator(): ContractMethod<string>;
+  executeGovernorProposal(_destination: string, _amount: NumberLike, _data: string): ContractMethod<void>;
+  changeMinStakingTime(_minStakingTime: NumberLike): ContractMethod<void>;
+  NON_PAYABLE_AMOUNT(): ContractMethod<bigint>;
+  setStake(_subcourtID: NumberLike, _stake: NumberLike): ContractMethod<void>;
+  executeRuling(_disputeID: NumberLike): ContractMethod<void>;
+  getVote(_disputeID: NumberLike, _appeal: NumberLike, _voteID: NumberLike): ContractMethod<{ account: string; commit: string; choice: bigint; voted: boolean; }>;
+  changeRNGenerator(_RNGenerator: string): ContractMethod<void>;
+  executeDelayedSetStakes(_iterations: NumberLike): ContractMethod<void>;
+  stakeOf(_account: string, _subcourtID: NumberLike): ContractMethod<bigint>;
+  changeSubcourtJurorsForJump(_subcourtID: NumberLike, _jurorsForCourtJump: NumberLike): ContractMethod<void>;
+  appealPeriod(_disputeID: NumberLike): ContractMethod<{ start: bigint; end: bigint; }>;
+  phase(): ContractMethod<bigint>;
+  MAX_STAKE_PATHS(): ContractMethod<bigint>;
+  delayedSetStakes(arg0: NumberLike): ContractMethod<{ account: string; subcourtID: bigint; stake: bigint; }>;
+  lastPhaseChange(): ContractMethod<bigint>;
+  minStakingTime(): ContractMethod<bigint>;
+  nextDelayedSetStake(): ContractMethod<bigint>;
+  createDispute(_numberOfChoices: NumberLike, _extraData: string): ContractMethod<bigint>;
+  drawJurors(_disputeID: NumberLike, _iterations: NumberLike): ContractMethod<void>;
+  createSubcourt(_parent: NumberLike, _hiddenVotes: boolean, _minStake: NumberLike, _alpha: NumberLike, _feeForJuror: NumberLike, _jurorsForCourtJump: NumberLike, _timesPerPeriod: NumberLike[], _sortitionSumTreeK: NumberLike): ContractMethod<void>;
+  getJuror(_account: string): ContractMethod<bigint[]>;
+  onApprove(_owner: string, _spender: string, _amount: NumberLike): ContractMethod<boolean>;
+  jurors(arg0: string): ContractMethod<{ stakedTokens: bigint; lockedTokens: bigint; }>;
+  changeMaxDrawingTime(_maxDrawingTime: NumberLike): ContractMethod<void>;
+  getDispute(_disputeID: NumberLike): ContractMethod<{ votesLengths: bigint[]; tokensAtStakePerJuror: bigint[]; totalFeesForJurors: bigint[]; votesInEachRound: bigint[]; repartitionsInEachRound: bigint[]; penaltiesInEachRound: bigint[]; }>;
+  getVoteCounter(_disputeID: NumberLike, _appeal: NumberLike): ContractMethod<{ winningChoice: bigint; counts: bigint[]; tied: boolean; }>;
+  changeGovernor(_governor: string): ContractMethod<void>;
+  MIN_JURORS(): ContractMethod<bigint>;
+  appealCost(_disputeID: NumberLike, _extraData: string): ContractMethod<bigint>;
+  proxyPayment(_owner: string): ContractMethod<boolean>;
+  lockInsolventTransfers(): ContractMethod<boolean>;
+  arbitrationCost(_extraData: string): ContractMethod<bigint>;
+  pinakion(): ContractMethod<string>;
+}
+
+export interface KlerosLiquidEvents {
+  NewPhase: { _phase: bigint; };
+  NewPeriod: { _disputeID: bigint; _period: bigint; };
+  StakeSet: { _address: string; _subcourtID: bigint; _stake: bigint; _newTotalStake: bigint; };
+  Draw: { _address: string; _disputeID: bigint; _appeal: bigint; _voteID: bigint; };
+  TokenAndETHShift: { _address: string; _disputeID: bigint; _tokenAmount: bigint; _ETHAmount: bigint; };
+  DisputeCreation: { _disputeID: bigint; _arbitrable: string; };
+  AppealPossible: { _disputeID: bigint; _arbitrable: string; };
+  AppealDecision: { _disputeID: bigint; _arbitrable: string; };
+}
+
+export interface KlerosLiquidContract {
+  methods: KlerosLiquidMethods;
+  getPastEvents<E extends keyof KlerosLiquidEvents>(
+    eventName: E,
+    options?: PastEventOptions
+  ): Promise<EventLog<KlerosLiquidEvents[E]>[]>;
+}
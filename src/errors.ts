@@ -0,0 +1,410 @@
+import { DuplicateItem, ItemStatus, ItemValueError } from "./types";
+
+/**
+ * Base class of every error thrown by this library. The underlying error, if
+ * any, is kept as `cause`.
+ */
+export class LightCurateError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = "LightCurateError";
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The user rejected a signature or transaction request in their wallet
+ */
+export class UserRejectedError extends LightCurateError {
+  constructor(options: { cause?: unknown } = {}) {
+    super("Transaction rejected by user", options);
+    this.name = "UserRejectedError";
+  }
+}
+
+/**
+ * The signer is connected to a different chain than the registry and could
+ * not be switched
+ */
+export class WrongChainError extends LightCurateError {
+  readonly expectedChainId: number;
+  readonly actualChainId?: number;
+
+  constructor(
+    expectedChainId: number,
+    actualChainId?: number,
+    options: { cause?: unknown } = {}
+  ) {
+    super(
+      actualChainId === undefined
+        ? `Could not switch to chain ${expectedChainId}`
+        : `Signer is connected to chain ${actualChainId}, expected ${expectedChainId}`,
+      options
+    );
+    this.name = "WrongChainError";
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+/**
+ * No signer was configured and no injected wallet is available
+ */
+export class SignerUnavailableError extends LightCurateError {
+  constructor() {
+    super(
+      "No signer available. Pass a signer in the constructor options or install MetaMask to continue."
+    );
+    this.name = "SignerUnavailableError";
+  }
+}
+
+/**
+ * The sender cannot pay for the transaction value and gas
+ */
+export class InsufficientFundsError extends LightCurateError {
+  constructor(options: { cause?: unknown } = {}) {
+    super("Insufficient funds for transaction", options);
+    this.name = "InsufficientFundsError";
+  }
+}
+
+/**
+ * The contract reverted the call or transaction
+ */
+export class ContractRevertError extends LightCurateError {
+  /**
+   * The decoded revert reason, if the contract provided one
+   */
+  readonly reason?: string;
+  /**
+   * The hash of the reverted transaction, when it was mined
+   */
+  readonly transactionHash?: string;
+
+  constructor(
+    reason?: string,
+    options: { cause?: unknown; transactionHash?: string } = {}
+  ) {
+    const transaction = options.transactionHash
+      ? `Transaction ${options.transactionHash}`
+      : "Transaction";
+    super(
+      reason ? `${transaction} reverted: ${reason}` : `${transaction} reverted`,
+      options
+    );
+    this.name = "ContractRevertError";
+    this.reason = reason;
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/**
+ * A transaction or contract read failed for another reason (network, RPC, ...)
+ */
+export class TransactionError extends LightCurateError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = "TransactionError";
+  }
+}
+
+/**
+ * The transaction was not mined and confirmed within the timeout. It may
+ * still be mined later; re-attach with waitForTransaction(transactionHash).
+ */
+export class TransactionTimeoutError extends LightCurateError {
+  readonly timeout: number;
+  /**
+   * The hash of the transaction, if it was broadcast before the timeout
+   */
+  readonly transactionHash?: string;
+
+  constructor(timeout: number, transactionHash?: string) {
+    super(
+      transactionHash
+        ? `Transaction ${transactionHash} was not confirmed within ${timeout} ms`
+        : `Transaction was not sent within ${timeout} ms`
+    );
+    this.name = "TransactionTimeoutError";
+    this.timeout = timeout;
+    this.transactionHash = transactionHash;
+  }
+}
+
+/**
+ * The subgraph could not be reached or returned errors
+ */
+export class SubgraphError extends LightCurateError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = "SubgraphError";
+  }
+}
+
+/**
+ * An IPFS upload or fetch failed
+ */
+export class IpfsError extends LightCurateError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options);
+    this.name = "IpfsError";
+  }
+}
+
+/**
+ * The item has no pending request that can be challenged
+ */
+export class NotChallengeableError extends LightCurateError {
+  readonly itemID: string;
+  readonly status: ItemStatus;
+
+  constructor(itemID: string, status: ItemStatus) {
+    super(`Item not in a challengeable state (${ItemStatus[status]})`);
+    this.name = "NotChallengeableError";
+    this.itemID = itemID;
+    this.status = status;
+  }
+}
+
+/**
+ * The item's pending request cannot be executed yet
+ */
+export class NotExecutableError extends LightCurateError {
+  readonly itemID: string;
+  readonly reason?: string;
+
+  constructor(itemID: string, reason?: string) {
+    super(`Request cannot be executed: ${reason}`);
+    this.name = "NotExecutableError";
+    this.itemID = itemID;
+    this.reason = reason;
+  }
+}
+
+/**
+ * The item's request has no dispute, so there is no appeal to price or fund
+ */
+export class NotDisputedError extends LightCurateError {
+  readonly itemID: string;
+  readonly requestID: number;
+
+  constructor(itemID: string, requestID: number) {
+    super(
+      `Request ${requestID} of the item is not disputed, no appeal available`
+    );
+    this.name = "NotDisputedError";
+    this.itemID = itemID;
+    this.requestID = requestID;
+  }
+}
+
+/**
+ * The appeal side being funded has already been fully paid
+ */
+export class AppealFullyFundedError extends LightCurateError {
+  readonly side: number;
+
+  constructor(side: number) {
+    super("This side of the appeal is already fully funded");
+    this.name = "AppealFullyFundedError";
+    this.side = side;
+  }
+}
+
+/**
+ * The appeal side cannot be funded right now: no appeal period is open, the
+ * side's window has not opened yet, or its funding deadline has passed. The
+ * losing side only has the first half of the appeal period.
+ */
+export class AppealWindowClosedError extends LightCurateError {
+  readonly side: number;
+  /**
+   * The side's funding deadline in seconds, null when no appeal period is open
+   */
+  readonly deadline: number | null;
+  /**
+   * When the side's window opens in seconds, set only if it has not opened yet
+   */
+  readonly opensAt: number | null;
+
+  constructor(
+    side: number,
+    deadline: number | null,
+    opensAt: number | null = null
+  ) {
+    const toISO = (seconds: number) => new Date(seconds * 1000).toISOString();
+    super(
+      deadline === null
+        ? "No appeal period is open for this dispute"
+        : opensAt !== null
+          ? `The appeal funding window for this side opens at ${toISO(opensAt)}`
+          : `The appeal funding window for this side closed at ${toISO(deadline)}`
+    );
+    this.name = "AppealWindowClosedError";
+    this.side = side;
+    this.deadline = deadline;
+    this.opensAt = opensAt;
+  }
+}
+
+/**
+ * Thrown when item values do not match the registry's MetaEvidence columns.
+ * Raised before anything is uploaded or sent, so no gas is spent.
+ */
+export class ItemValidationError extends LightCurateError {
+  readonly errors: ItemValueError[];
+
+  constructor(errors: ItemValueError[]) {
+    super(
+      `Invalid item values: ${errors
+        .map((error) => `${error.column}: ${error.message}`)
+        .join("; ")}`
+    );
+    this.name = "ItemValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown by submitItem with rejectDuplicates when an item with the same
+ * identifiers or data is already registered or pending
+ */
+export class DuplicateItemError extends LightCurateError {
+  readonly duplicates: DuplicateItem[];
+
+  constructor(duplicates: DuplicateItem[]) {
+    super(
+      `Item already exists: ${duplicates
+        .map((duplicate) => `${duplicate.itemID} (${duplicate.status})`)
+        .join(", ")}`
+    );
+    this.name = "DuplicateItemError";
+    this.duplicates = duplicates;
+  }
+}
+
+// Selector of Solidity's Error(string)
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+/**
+ * Decodes the reason string of Error(string) revert data
+ */
+function decodeErrorString(data: string): string | undefined {
+  if (!data.startsWith(ERROR_STRING_SELECTOR)) return undefined;
+
+  const body = data.slice(ERROR_STRING_SELECTOR.length);
+  const length = parseInt(body.slice(64, 128), 16);
+  const hex = body.slice(128, 128 + length * 2);
+  if (Number.isNaN(length) || hex.length !== length * 2) return undefined;
+
+  const bytes = new Uint8Array(
+    (hex.match(/../g) || []).map((byte) => parseInt(byte, 16))
+  );
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Looks for a revert in a web3.js, ethers or EIP-1193 error
+ * @returns The revert reason ("" when none was given), or undefined if the error is not a revert
+ */
+function getRevertReason(error: any): string | undefined {
+  const nested = [error, error?.innerError, error?.cause, error?.error];
+
+  for (const candidate of nested) {
+    const data = candidate?.data?.data ?? candidate?.data;
+    if (typeof data === "string") {
+      const reason = decodeErrorString(data);
+      if (reason !== undefined) return reason;
+    }
+  }
+
+  if (typeof error?.reason === "string") return error.reason;
+
+  for (const candidate of nested) {
+    const message: unknown = candidate?.message;
+    if (typeof message !== "string") continue;
+
+    const match = message.match(/execution reverted(?::\s*(.*))?/i);
+    if (match) return (match[1] || "").trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the receipt of a mined transaction that reverted. web3.js attaches it
+ * to TransactionRevertedWithoutReasonError and TransactionRevertInstructionError,
+ * ethers to CALL_EXCEPTION errors thrown by wait().
+ */
+function getRevertedReceipt(error: any): any {
+  const receipt = error?.receipt ?? error?.innerError?.receipt;
+  if (!receipt || receipt.status === undefined) return undefined;
+  return Number(receipt.status) === 0 ? receipt : undefined;
+}
+
+/**
+ * Classifies an error thrown by a wallet, RPC node or contract into one of
+ * the library's error classes, keeping the original error as `cause`
+ * (or, for mined transactions that reverted, their receipt)
+ * @param error The caught error
+ * @param fallbackMessage Message prefix used when the error cannot be classified
+ * @param options transactionHash of the transaction that was sent, if known
+ * @returns A LightCurateError subclass
+ */
+export function toLightCurateError(
+  error: unknown,
+  fallbackMessage: string,
+  options: { transactionHash?: string } = {}
+): LightCurateError {
+  if (error instanceof LightCurateError) return error;
+
+  const err = error as any;
+  const message: string =
+    typeof err?.message === "string" ? err.message : String(error);
+  const code = err?.code ?? err?.innerError?.code ?? err?.cause?.code;
+
+  if (
+    code === 4001 ||
+    code === "ACTION_REJECTED" ||
+    /user (denied|rejected)/i.test(message)
+  ) {
+    return new UserRejectedError({ cause: error });
+  }
+
+  if (code === "INSUFFICIENT_FUNDS" || /insufficient funds/i.test(message)) {
+    return new InsufficientFundsError({ cause: error });
+  }
+
+  // ethers reports reverts as CALL_EXCEPTION, web3.js reports mined
+  // transactions that reverted as "reverted by the EVM" with their receipt
+  const receipt = getRevertedReceipt(err);
+  if (
+    code === "CALL_EXCEPTION" ||
+    receipt ||
+    /reverted by the EVM/i.test(message)
+  ) {
+    const transactionHash =
+      options.transactionHash ??
+      err?.transactionHash ??
+      receipt?.transactionHash?.toString();
+    return new ContractRevertError(getRevertReason(err) || undefined, {
+      transactionHash,
+      cause: receipt ?? error,
+    });
+  }
+
+  const reason = getRevertReason(err);
+  if (reason !== undefined) {
+    return new ContractRevertError(reason || undefined, {
+      transactionHash: options.transactionHash,
+      cause: error,
+    });
+  }
+
+  return new TransactionError(`${fallbackMessage}: ${message}`, {
+    cause: error,
+  });
+}
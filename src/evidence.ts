@@ -0,0 +1,188 @@
+import {
+  EvidenceDetails,
+  EvidenceDocument,
+  EvidencePartyRole,
+  EvidenceResolutionIssue,
+  EvidenceTimeline,
+  EvidenceTimelineEntry,
+  LRequestDetails,
+} from "./types";
+import { DEFAULT_IPFS_GATEWAY, SupportedChainId } from "./chains";
+import { fetchItemDetails } from "./graph";
+import { fetchFromIPFS } from "./ipfs";
+import { mapWithConcurrency } from "./items";
+
+// Number of evidence documents fetched from IPFS at the same time
+const DEFAULT_RESOLVE_CONCURRENCY = 5;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * Labels the submitter of a piece of evidence relative to its request
+ */
+function getPartyRole(
+  party: string,
+  request: LRequestDetails
+): EvidencePartyRole {
+  const address = party.toLowerCase();
+  if (address === request.requester?.toLowerCase()) return "requester";
+  if (address === request.challenger?.toLowerCase()) return "challenger";
+  return "thirdParty";
+}
+
+/**
+ * Builds the evidence document from the metadata indexed by the subgraph, if any
+ */
+function fromSubgraphMetadata(
+  evidence: EvidenceDetails
+): EvidenceDocument | null {
+  const { metadata } = evidence;
+  if (!metadata) return null;
+
+  const title = metadata.title ?? metadata.name;
+  if (title === null && metadata.description === null) return null;
+
+  return {
+    name: metadata.name ?? title ?? "",
+    title: title ?? "",
+    description: metadata.description ?? "",
+    fileURI: metadata.fileURI ?? undefined,
+    fileTypeExtension: metadata.fileTypeExtension ?? undefined,
+  };
+}
+
+/**
+ * Parses an evidence document fetched from IPFS
+ */
+function parseEvidenceDocument(json: unknown): EvidenceDocument | null {
+  if (!json || typeof json !== "object" || Array.isArray(json)) return null;
+
+  const raw = json as Record<string, unknown>;
+  const title = optionalString(raw.title) ?? optionalString(raw.name);
+  const description = optionalString(raw.description);
+  if (title === undefined && description === undefined) return null;
+
+  return {
+    name: optionalString(raw.name) ?? title ?? "",
+    title: title ?? "",
+    description: description ?? "",
+    fileURI: optionalString(raw.fileURI),
+    fileTypeExtension: optionalString(raw.fileTypeExtension),
+  };
+}
+
+/**
+ * Fetches the evidence submitted for every request of an item, in
+ * chronological order, with each document resolved from the subgraph's
+ * evidence metadata or, when the subgraph has not indexed it, from IPFS.
+ * Documents that cannot be fetched or parsed are reported in `issues` and
+ * left as null instead of throwing.
+ * @param registryAddress The address of the registry contract
+ * @param itemID The ID of the item
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns The evidence timeline, or null if the item does not exist
+ */
+export async function getEvidenceTimeline(
+  registryAddress: string,
+  itemID: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+    ipfsGateway?: string;
+    concurrency?: number;
+  } = {}
+): Promise<EvidenceTimeline | null> {
+  const {
+    customSubgraphUrl,
+    signal,
+    ipfsGateway = DEFAULT_IPFS_GATEWAY,
+    concurrency = DEFAULT_RESOLVE_CONCURRENCY,
+  } = options;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a positive integer");
+  }
+
+  const item = await fetchItemDetails(registryAddress, itemID, chainId, {
+    customSubgraphUrl,
+    signal,
+  });
+  if (!item) return null;
+
+  const evidences = item.requests.flatMap((request, requestIndex) =>
+    (request.evidenceGroup?.evidences || []).map((evidence) => ({
+      evidence,
+      request,
+      requestIndex,
+    }))
+  );
+
+  // Evidence numbers grow with submission order and break timestamp ties
+  evidences.sort(
+    (a, b) =>
+      Number(a.evidence.timestamp) - Number(b.evidence.timestamp) ||
+      Number(a.evidence.number) - Number(b.evidence.number)
+  );
+
+  const issues: EvidenceResolutionIssue[] = [];
+
+  const entries = await mapWithConcurrency(
+    evidences,
+    concurrency,
+    async ({ evidence, request, requestIndex }) => {
+      const entry: EvidenceTimelineEntry = {
+        id: evidence.id,
+        requestIndex,
+        party: evidence.party,
+        role: getPartyRole(evidence.party, request),
+        URI: evidence.URI,
+        timestamp: Number(evidence.timestamp),
+        txHash: evidence.txHash,
+        document: fromSubgraphMetadata(evidence),
+        source: null,
+      };
+
+      if (entry.document) {
+        entry.source = "subgraph";
+        return entry;
+      }
+
+      try {
+        entry.document = parseEvidenceDocument(
+          await fetchFromIPFS(evidence.URI, ipfsGateway)
+        );
+      } catch (error: any) {
+        issues.push({
+          evidenceID: evidence.id,
+          URI: evidence.URI,
+          type: "fetch-failed",
+          message: `Failed to fetch ${evidence.URI}: ${error.message}`,
+        });
+        return entry;
+      }
+
+      if (entry.document) {
+        entry.source = "ipfs";
+      } else {
+        issues.push({
+          evidenceID: evidence.id,
+          URI: evidence.URI,
+          type: "malformed",
+          message: "Evidence is not a JSON object with a title or description",
+        });
+      }
+      return entry;
+    }
+  );
+
+  // Keep issues in timeline order, fetches complete out of order
+  const order = new Map(entries.map((entry, index) => [entry.id, index]));
+  issues.sort(
+    (a, b) => (order.get(a.evidenceID) ?? 0) - (order.get(b.evidenceID) ?? 0)
+  );
+
+  return { itemID: item.itemID, entries, issues };
+}
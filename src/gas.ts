@@ -0,0 +1,122 @@
+import type Web3 from "web3";
+import { GasOverrides, GasStrategy } from "./types";
+import { TransactionRequest } from "./signer";
+
+// Percentage added on top of estimated gas limits
+const DEFAULT_GAS_LIMIT_BUFFER = 20;
+
+// maxFeePerGas = baseFee * multiplier + priority fee, so the transaction stays
+// valid through several blocks of rising base fees
+const DEFAULT_BASE_FEE_MULTIPLIER = 2;
+
+// 1 gwei, used when the node cannot suggest a priority fee
+const DEFAULT_FALLBACK_PRIORITY_FEE = BigInt(1000000000);
+
+/**
+ * Fee fields of a transaction: either a legacy gasPrice or EIP-1559 fee caps
+ */
+export type TransactionFees = Pick<
+  TransactionRequest,
+  "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas"
+>;
+
+/**
+ * Adds the strategy's buffer to an estimated gas limit
+ * @param estimate The estimated gas limit
+ * @param strategy The gas strategy
+ * @returns The buffered gas limit
+ */
+export function applyGasBuffer(
+  estimate: bigint,
+  strategy: GasStrategy = {}
+): bigint {
+  const buffer = strategy.gasLimitBuffer ?? DEFAULT_GAS_LIMIT_BUFFER;
+  if (buffer < 0) {
+    throw new Error(`Invalid gas limit buffer: ${buffer}`);
+  }
+  // Percentages may be fractional, scale to basis points to stay in BigInt
+  return (estimate * BigInt(10000 + Math.round(buffer * 100))) / BigInt(10000);
+}
+
+/**
+ * Prices a transaction with the gas strategy, applying per-call overrides. An
+ * explicit gasPrice forces a legacy transaction; explicit fee caps force an
+ * EIP-1559 transaction.
+ * @param web3 The Web3 instance to read fees from
+ * @param strategy The gas strategy
+ * @param overrides Per-call fee overrides
+ * @returns The fee fields to send with the transaction
+ */
+export async function resolveFees(
+  web3: Web3,
+  strategy: GasStrategy = {},
+  overrides: GasOverrides = {}
+): Promise<TransactionFees> {
+  if (overrides.gasPrice !== undefined) {
+    return { gasPrice: BigInt(overrides.gasPrice).toString() };
+  }
+
+  if (
+    overrides.maxFeePerGas !== undefined &&
+    overrides.maxPriorityFeePerGas !== undefined
+  ) {
+    return {
+      maxFeePerGas: BigInt(overrides.maxFeePerGas).toString(),
+      maxPriorityFeePerGas: BigInt(overrides.maxPriorityFeePerGas).toString(),
+    };
+  }
+
+  const feeType =
+    overrides.maxFeePerGas !== undefined ||
+    overrides.maxPriorityFeePerGas !== undefined
+      ? "eip1559"
+      : (strategy.feeType ?? "auto");
+
+  if (feeType === "legacy") {
+    return { gasPrice: (await web3.eth.getGasPrice()).toString() };
+  }
+
+  const { baseFeePerGas } = await web3.eth.getBlock("latest");
+  if (baseFeePerGas === undefined || baseFeePerGas === null) {
+    if (feeType === "eip1559") {
+      throw new Error("The chain does not support EIP-1559 fees");
+    }
+    return { gasPrice: (await web3.eth.getGasPrice()).toString() };
+  }
+
+  let maxPriorityFeePerGas: bigint;
+  if (overrides.maxPriorityFeePerGas !== undefined) {
+    maxPriorityFeePerGas = BigInt(overrides.maxPriorityFeePerGas);
+  } else {
+    try {
+      maxPriorityFeePerGas = BigInt(await web3.eth.getMaxPriorityFeePerGas());
+    } catch {
+      // Not every node implements eth_maxPriorityFeePerGas
+      maxPriorityFeePerGas = BigInt(
+        strategy.fallbackPriorityFee ?? DEFAULT_FALLBACK_PRIORITY_FEE
+      );
+    }
+  }
+
+  let maxFeePerGas: bigint;
+  if (overrides.maxFeePerGas !== undefined) {
+    maxFeePerGas = BigInt(overrides.maxFeePerGas);
+  } else {
+    const multiplier =
+      strategy.baseFeeMultiplier ?? DEFAULT_BASE_FEE_MULTIPLIER;
+    maxFeePerGas =
+      (BigInt(baseFeePerGas) * BigInt(Math.round(multiplier * 100))) /
+        BigInt(100) +
+      maxPriorityFeePerGas;
+  }
+
+  // Nodes reject transactions whose tip exceeds the fee cap
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    maxPriorityFeePerGas = maxFeePerGas;
+  }
+
+  return {
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+  };
+}
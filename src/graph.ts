@@ -1,6 +1,21 @@
-import { GraphQLResponse, LItem } from "./types";
-import { toast } from "sonner";
-import { SupportedChainId } from "./index";
+import {
+  GraphQLResponse,
+  ItemFilterCondition,
+  ItemFilters,
+  ItemOrderField,
+  ItemSearchResult,
+  LContribution,
+  LItem,
+  LItemDetails,
+  LItemStatus,
+  LRegistry,
+  LRegistryMetadata,
+  OrderDirection,
+  RegistrySearchResult,
+} from "./types";
+import { SupportedChainId, getChainConfig } from "./chains";
+import { log, notify } from "./logger";
+import { SubgraphError } from "./errors";
 
 // Constants
 const BATCH_SIZE = 1000;
@@ -8,19 +23,55 @@ const BATCH_SIZE = 1000;
 // Cache for GraphQL responses
 const itemsCache = new Map<string, LItem[]>();
 
-// Default subgraph URLs by chain
-const SUBGRAPH_URLS = {
-  1: "https://gateway.thegraph.com/api/500a3f85051f0de7a90d155df163a09b/subgraphs/id/A5oqWboEuDezwqpkaJjih4ckGhoHRoXZExqUbja2k1NQ", // Ethereum Mainnet
-  100: "https://gateway.thegraph.com/api/500a3f85051f0de7a90d155df163a09b/subgraphs/id/9hHo5MpjpC1JqfD3BsgFnojGurXRHTrHWcUcZPPCo6m8", // Gnosis Chain
-};
+// Cache for full-text search results
+const searchCache = new Map<
+  string,
+  { results: (ItemSearchResult | RegistrySearchResult)[]; hasMore: boolean }
+>();
+
+// Default page size for full-text search
+const SEARCH_PAGE_SIZE = 100;
+
+// Fields of the registry metadata entity
+const REGISTRY_METADATA_FIELDS = `
+  id
+  title
+  description
+  itemName
+  itemNamePlural
+  isConnectedTCR
+  requireRemovalEvidence
+  isTCRofTcrs
+  parentTCRAddress
+  relTcrDisabled
+`;
+
+/**
+ * Resolves the subgraph URL for a chain, preferring a custom URL when given
+ */
+function getSubgraphUrl(
+  chainId: SupportedChainId,
+  customSubgraphUrl?: string
+): string {
+  const subgraphUrl = customSubgraphUrl || getChainConfig(chainId).subgraphUrl;
+  if (!subgraphUrl) {
+    throw new SubgraphError(
+      `No subgraph URL available for chain ID: ${chainId}`
+    );
+  }
+  return subgraphUrl;
+}
 
 // Common item fields to query
 const ITEM_FIELDS = `
   __typename
+  id
   data
   itemID
   disputed
+  numberOfRequests
   latestRequestSubmissionTime
+  latestRequestResolutionTime
   metadata {
     __typename
     props {
@@ -32,7 +83,7 @@ const ITEM_FIELDS = `
       value
     }
   }
-  requests {
+  requests(orderBy: submissionTime, orderDirection: asc) {
     __typename
     challenger
     deposit
@@ -42,7 +93,7 @@ const ITEM_FIELDS = `
     resolutionTime
     resolved
     requestType
-    rounds {
+    rounds(orderBy: creationTime, orderDirection: asc) {
       __typename
       appealed
       amountPaidChallenger
@@ -67,40 +118,253 @@ const ITEM_FIELDS = `
   status
 `;
 
+// Every field of an item, its requests, rounds and evidence
+const ITEM_DETAIL_FIELDS = `
+  id
+  itemID
+  data
+  status
+  numberOfRequests
+  registryAddress
+  latestRequestSubmissionTime
+  latestRequestResolutionTime
+  disputed
+  latestRequester
+  latestChallenger
+  metadata {
+    id
+    props {
+      type
+      label
+      description
+      isIdentifier
+      value
+    }
+    key0
+    key1
+    key2
+    key3
+    key4
+    keywords
+  }
+  requests(orderBy: submissionTime, orderDirection: asc) {
+    id
+    disputed
+    disputeID
+    submissionTime
+    resolved
+    requester
+    challenger
+    arbitrator
+    arbitratorExtraData
+    deposit
+    disputeOutcome
+    numberOfRounds
+    requestType
+    metaEvidence {
+      id
+      URI
+    }
+    resolutionTime
+    finalRuling
+    creationTx
+    resolutionTx
+    evidenceGroup {
+      id
+      numberOfEvidence
+      evidences(orderBy: number, orderDirection: asc) {
+        id
+        arbitrator
+        party
+        URI
+        number
+        timestamp
+        txHash
+        metadata {
+          id
+          name
+          title
+          description
+          fileURI
+          fileTypeExtension
+        }
+      }
+    }
+    rounds(orderBy: creationTime, orderDirection: asc) {
+      id
+      amountPaidRequester
+      amountPaidChallenger
+      hasPaidRequester
+      hasPaidChallenger
+      lastFundedRequester
+      lastFundedChallenger
+      feeRewards
+      appealPeriodStart
+      appealPeriodEnd
+      rulingTime
+      ruling
+      txHashAppealPossible
+      txHashAppealDecision
+      creationTime
+      numberOfContributions
+      appealed
+      appealedAt
+      contributions {
+        id
+        contributor
+        withdrawable
+        side
+      }
+    }
+  }
+`;
+
+type ItemFilterOperator = keyof ItemFilterCondition<unknown>;
+
+const LITEM_STATUSES: LItemStatus[] = [
+  "Absent",
+  "Registered",
+  "RegistrationRequested",
+  "ClearingRequested",
+];
+
+const isHexString = (value: unknown) =>
+  typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value);
+
+const isBigIntLike = (value: unknown) =>
+  (typeof value === "number" && Number.isInteger(value) && value >= 0) ||
+  (typeof value === "string" && /^\d+$/.test(value));
+
+// Filterable item fields, the operators they support and how values are checked
+const ITEM_FILTER_FIELDS: Record<
+  keyof ItemFilters,
+  {
+    operators: ItemFilterOperator[];
+    expected: string;
+    isValid: (value: unknown) => boolean;
+  }
+> = {
+  itemID: {
+    operators: ["_in", "_not_in", "_contains"],
+    expected: "a hex string",
+    isValid: isHexString,
+  },
+  data: {
+    operators: ["_in", "_not_in", "_gt", "_lt", "_contains"],
+    expected: "a string",
+    isValid: (value) => typeof value === "string",
+  },
+  status: {
+    operators: ["_in", "_not_in"],
+    expected: `one of ${LITEM_STATUSES.join(", ")}`,
+    isValid: (value) => LITEM_STATUSES.includes(value as LItemStatus),
+  },
+  disputed: {
+    operators: ["_in", "_not_in"],
+    expected: "a boolean",
+    isValid: (value) => typeof value === "boolean",
+  },
+  latestRequester: {
+    operators: ["_in", "_not_in"],
+    expected: "an address",
+    isValid: isHexString,
+  },
+  latestChallenger: {
+    operators: ["_in", "_not_in"],
+    expected: "an address",
+    isValid: isHexString,
+  },
+  numberOfRequests: {
+    operators: ["_in", "_not_in", "_gt", "_lt"],
+    expected: "a non-negative integer",
+    isValid: isBigIntLike,
+  },
+  latestRequestSubmissionTime: {
+    operators: ["_in", "_not_in", "_gt", "_lt"],
+    expected: "a non-negative integer",
+    isValid: isBigIntLike,
+  },
+  latestRequestResolutionTime: {
+    operators: ["_in", "_not_in", "_gt", "_lt"],
+    expected: "a non-negative integer",
+    isValid: isBigIntLike,
+  },
+};
+
 /**
- * Creates a GraphQL query for fetching items with filters
+ * Validates item filters and converts them into an `LItem_filter` object for
+ * use as a GraphQL variable. Throws on unknown fields, unsupported operators
+ * and values of the wrong type.
  */
-function createItemsQuery(
-  registryAddress: string,
-  lastTimestamp?: number,
-  filters?: Record<string, string[]>
-) {
-  // Build where clause
-  const whereConditions = [`registry: "${registryAddress.toLowerCase()}"`];
+function buildItemsWhere(filters?: ItemFilters): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  if (!filters) return where;
 
-  // Add timestamp for pagination
-  if (lastTimestamp) {
-    whereConditions.push(`latestRequestSubmissionTime_lt: ${lastTimestamp}`);
-  }
+  Object.entries(filters).forEach(([field, filter]) => {
+    if (filter === undefined) return;
+
+    const spec = ITEM_FILTER_FIELDS[field as keyof ItemFilters];
+    if (!spec) {
+      throw new Error(
+        `Unknown item filter field "${field}". Supported fields are: ${Object.keys(ITEM_FILTER_FIELDS).join(", ")}`
+      );
+    }
 
-  // Add filter conditions
-  if (filters) {
-    Object.entries(filters).forEach(([key, values]) => {
-      if (values && values.length > 0) {
-        whereConditions.push(
-          `${key}_in: [${values.map((v) => `"${v}"`).join(", ")}]`
+    const condition: ItemFilterCondition<unknown> = Array.isArray(filter)
+      ? { _in: filter }
+      : filter;
+
+    Object.entries(condition).forEach(([operator, value]) => {
+      if (value === undefined) return;
+
+      if (!spec.operators.includes(operator as ItemFilterOperator)) {
+        throw new Error(
+          `Operator "${operator}" is not supported on item filter field "${field}". Supported operators are: ${spec.operators.join(", ")}`
         );
       }
+
+      const isList = operator === "_in" || operator === "_not_in";
+      if (isList && !Array.isArray(value)) {
+        throw new Error(`Item filter "${field}${operator}" expects an array`);
+      }
+
+      const values: unknown[] = isList ? value : [value];
+      values.forEach((v) => {
+        if (!spec.isValid(v)) {
+          throw new Error(
+            `Invalid value ${JSON.stringify(v)} for item filter "${field}${operator}": expected ${spec.expected}`
+          );
+        }
+      });
+
+      // Numbers are sent as strings so BigInt fields keep full precision
+      const normalized = values.map((v) =>
+        typeof v === "number" ? v.toString() : v
+      );
+      where[`${field}${operator}`] = isList ? normalized : normalized[0];
     });
-  }
+  });
+
+  return where;
+}
 
+/**
+ * Creates a GraphQL query for fetching items. The where clause is passed as
+ * the `where` variable, built by buildItemsWhere.
+ */
+function createItemsQuery() {
   return `
-    query GetItems {
+    query GetItems(
+      $first: Int!
+      $where: LItem_filter!
+      $orderBy: LItem_orderBy!
+      $orderDirection: OrderDirection!
+    ) {
       litems(
-        first: ${BATCH_SIZE}
-        orderBy: latestRequestSubmissionTime
-        orderDirection: desc
-        where: { ${whereConditions.join(", ")} }
+        first: $first
+        orderBy: $orderBy
+        orderDirection: $orderDirection
+        where: $where
       ) {
         ${ITEM_FIELDS}
       }
@@ -114,14 +378,24 @@ function createItemsQuery(
 function generateCacheKey(
   chainId: SupportedChainId,
   registryAddress: string,
-  filters?: Record<string, string[]>
+  filters?: ItemFilters,
+  orderBy: ItemOrderField = "latestRequestSubmissionTime",
+  orderDirection: OrderDirection = "desc"
 ): string {
   let key = `${chainId}-${registryAddress.toLowerCase()}`;
 
-  if (filters && Object.keys(filters).length > 0) {
-    const filterString = Object.entries(filters)
-      .sort()
-      .map(([key, values]) => `${key}:${(values || []).sort().join(",")}`)
+  if (orderBy !== "latestRequestSubmissionTime" || orderDirection !== "desc") {
+    key += `-${orderBy}:${orderDirection}`;
+  }
+
+  const where = buildItemsWhere(filters);
+  if (Object.keys(where).length > 0) {
+    const filterString = Object.entries(where)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([key, value]) =>
+          `${key}:${Array.isArray(value) ? [...value].sort().join(",") : value}`
+      )
       .join(";");
 
     key += `-${filterString}`;
@@ -131,36 +405,104 @@ function generateCacheKey(
 }
 
 /**
- * Makes a GraphQL request to fetch items
+ * Makes a GraphQL request to the subgraph
  */
-async function makeGraphQLRequest(
+async function makeGraphQLRequest<T = GraphQLResponse>(
   url: string,
   query: string,
-  signal?: AbortSignal
-): Promise<GraphQLResponse> {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ query }),
-    signal,
-  });
+  signal?: AbortSignal,
+  variables?: Record<string, unknown>
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, variables }),
+      signal,
+    });
+  } catch (error: any) {
+    // Aborts are passed through so callers can tell them apart
+    if (error?.name === "AbortError") {
+      throw error;
+    }
+    throw new SubgraphError(`Subgraph request failed: ${error?.message}`, {
+      cause: error,
+    });
+  }
 
   if (!response.ok) {
-    throw new Error(`Network response was not ok: ${response.statusText}`);
+    throw new SubgraphError(
+      `Network response was not ok: ${response.statusText}`
+    );
   }
 
   const result = await response.json();
 
   if (result.errors) {
-    console.error("GraphQL errors:", result.errors);
-    throw new Error(`GraphQL error: ${result.errors[0].message}`);
+    log.error("GraphQL errors:", result.errors);
+    throw new SubgraphError(`GraphQL error: ${result.errors[0].message}`, {
+      cause: result.errors,
+    });
   }
 
   return result;
 }
 
+/**
+ * Fetches one page of items matching a prepared where clause
+ */
+async function fetchItemsPage(
+  subgraphUrl: string,
+  where: Record<string, unknown>,
+  orderBy: ItemOrderField,
+  orderDirection: OrderDirection,
+  first: number,
+  signal?: AbortSignal
+): Promise<LItem[]> {
+  const result = await makeGraphQLRequest(
+    subgraphUrl,
+    createItemsQuery(),
+    signal,
+    { first, where, orderBy, orderDirection }
+  );
+
+  if (!result.data || !Array.isArray(result.data.litems)) {
+    throw new SubgraphError("Received invalid data format");
+  }
+
+  return result.data.litems;
+}
+
+/**
+ * Narrows a where clause with a `_lt`/`_gt` cursor, keeping any tighter bound
+ * the caller already set on the same field
+ */
+function withCursor(
+  where: Record<string, unknown>,
+  field: ItemOrderField,
+  orderDirection: OrderDirection,
+  value: string
+): Record<string, unknown> {
+  const key = `${field}${orderDirection === "desc" ? "_lt" : "_gt"}`;
+  const existing = where[key] as string | undefined;
+
+  if (existing !== undefined) {
+    const compare =
+      field === "id"
+        ? value.localeCompare(existing)
+        : Number(BigInt(value) - BigInt(existing));
+    const isTighter = orderDirection === "desc" ? compare < 0 : compare > 0;
+    if (!isTighter) return where;
+  }
+
+  return { ...where, [key]: value };
+}
+
 /**
  * Fetches a single batch of items
+ * @deprecated Paginating on `latestRequestSubmissionTime_lt` skips items that
+ * share the boundary timestamp. Use iterateItems instead.
  */
 export async function fetchItemsBatch(
   registryAddress: string,
@@ -168,34 +510,161 @@ export async function fetchItemsBatch(
   lastTimestamp?: number,
   customSubgraphUrl?: string,
   signal?: AbortSignal,
-  filters?: Record<string, string[]>
+  filters?: ItemFilters
 ): Promise<{ items: LItem[]; hasMore: boolean }> {
-  try {
-    const subgraphUrl = customSubgraphUrl || SUBGRAPH_URLS[chainId];
-    if (!subgraphUrl) {
-      throw new Error(`No subgraph URL available for chain ID: ${chainId}`);
-    }
+  let where: Record<string, unknown> = {
+    ...buildItemsWhere(filters),
+    registry: registryAddress.toLowerCase(),
+  };
 
-    const query = createItemsQuery(registryAddress, lastTimestamp, filters);
-    const result = await makeGraphQLRequest(subgraphUrl, query, signal);
+  if (lastTimestamp) {
+    where = withCursor(
+      where,
+      "latestRequestSubmissionTime",
+      "desc",
+      lastTimestamp.toString()
+    );
+  }
 
-    if (!result.data || !Array.isArray(result.data.litems)) {
-      throw new Error("Received invalid data format");
-    }
+  try {
+    const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+    const items = await fetchItemsPage(
+      subgraphUrl,
+      where,
+      "latestRequestSubmissionTime",
+      "desc",
+      BATCH_SIZE,
+      signal
+    );
 
     return {
-      items: result.data.litems,
-      hasMore: result.data.litems.length === BATCH_SIZE,
+      items,
+      hasMore: items.length === BATCH_SIZE,
     };
   } catch (error) {
     if (error instanceof Error && error.name === "AbortError") {
-      console.log("Fetch aborted");
+      log.debug("Fetch aborted");
       return { items: [], hasMore: false };
     }
 
-    console.error("Error fetching batch:", error);
-    if (typeof toast !== "undefined") {
-      toast.error("Failed to load items. Please try again later.");
+    log.error("Error fetching batch:", error);
+    notify({
+      level: "error",
+      message: "Failed to load items. Please try again later.",
+      error,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Iterates over the items of a registry page by page, without keeping every
+ * item in memory.
+ *
+ * Pages are cursored on the sort field. When a page ends on a value shared by
+ * further items (e.g. several items submitted in the same block), every item
+ * with that value is drained using `id` as the tie-breaker before moving on,
+ * so no item is skipped or yielded twice.
+ * @param registryAddress The address of the registry contract
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns An async iterator of item pages
+ */
+export async function* iterateItems(
+  registryAddress: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+    filters?: ItemFilters;
+    orderBy?: ItemOrderField;
+    orderDirection?: OrderDirection;
+    pageSize?: number;
+  } = {}
+): AsyncGenerator<LItem[], void, undefined> {
+  const {
+    customSubgraphUrl,
+    signal,
+    filters,
+    orderBy = "latestRequestSubmissionTime",
+    orderDirection = "desc",
+    pageSize = BATCH_SIZE,
+  } = options;
+
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > BATCH_SIZE) {
+    throw new Error(`pageSize must be an integer between 1 and ${BATCH_SIZE}`);
+  }
+
+  const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+  const baseWhere: Record<string, unknown> = {
+    ...buildItemsWhere(filters),
+    registry: registryAddress.toLowerCase(),
+  };
+
+  const fetchPage = (
+    where: Record<string, unknown>,
+    field: ItemOrderField,
+    direction: OrderDirection
+  ) => fetchItemsPage(subgraphUrl, where, field, direction, pageSize, signal);
+
+  try {
+    let cursor: string | undefined = undefined;
+
+    while (!signal?.aborted) {
+      const where: Record<string, unknown> =
+        cursor === undefined
+          ? baseWhere
+          : withCursor(baseWhere, orderBy, orderDirection, cursor);
+      const page = await fetchPage(where, orderBy, orderDirection);
+
+      if (page.length > 0) {
+        yield page;
+      }
+      if (page.length < pageSize) {
+        return;
+      }
+
+      const boundary = page[page.length - 1][orderBy];
+
+      // Ids are unique, so the cursor alone is enough
+      if (orderBy === "id") {
+        cursor = boundary;
+        continue;
+      }
+
+      // Drain the remaining items sharing the boundary value, ordered by id
+      const seen = new Set(
+        page.filter((item) => item[orderBy] === boundary).map((item) => item.id)
+      );
+      let idCursor: string | undefined = undefined;
+
+      while (!signal?.aborted) {
+        const tieWhere: Record<string, unknown> = {
+          ...baseWhere,
+          [orderBy]: boundary,
+        };
+        if (idCursor !== undefined) {
+          tieWhere.id_gt = idCursor;
+        }
+
+        const tiePage = await fetchPage(tieWhere, "id", "asc");
+        const unseen = tiePage.filter((item) => !seen.has(item.id));
+
+        if (unseen.length > 0) {
+          yield unseen;
+        }
+        if (tiePage.length < pageSize) {
+          break;
+        }
+        idCursor = tiePage[tiePage.length - 1].id;
+      }
+
+      cursor = boundary;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return;
     }
     throw error;
   }
@@ -213,7 +682,9 @@ export async function fetchItems(
     signal?: AbortSignal;
     onProgress?: (progress: { loaded: number; total?: number }) => void;
     maxBatches?: number;
-    filters?: Record<string, string[]>;
+    filters?: ItemFilters;
+    orderBy?: ItemOrderField;
+    orderDirection?: OrderDirection;
   } = {}
 ): Promise<{ items: LItem[]; stats: { batches: number; total: number } }> {
   const {
@@ -223,10 +694,18 @@ export async function fetchItems(
     forceRefresh = false,
     maxBatches = Infinity,
     filters,
+    orderBy,
+    orderDirection,
   } = options;
 
   // Check cache
-  const cacheKey = generateCacheKey(chainId, registryAddress, filters);
+  const cacheKey = generateCacheKey(
+    chainId,
+    registryAddress,
+    filters,
+    orderBy,
+    orderDirection
+  );
 
   if (!forceRefresh && itemsCache.has(cacheKey)) {
     const cachedItems = itemsCache.get(cacheKey) || [];
@@ -238,62 +717,55 @@ export async function fetchItems(
 
   try {
     let allItems: LItem[] = [];
-    let lastTimestamp: number | undefined = undefined;
     let batchCount = 0;
+    let complete = true;
 
-    // Fetch batches with pagination
-    while (batchCount < maxBatches) {
-      if (signal?.aborted) {
-        throw new Error("Operation aborted");
-      }
-
-      const { items, hasMore } = await fetchItemsBatch(
-        registryAddress,
-        chainId,
-        lastTimestamp,
-        customSubgraphUrl,
-        signal,
-        filters
-      );
-
+    for await (const items of iterateItems(registryAddress, chainId, {
+      customSubgraphUrl,
+      signal,
+      filters,
+      orderBy,
+      orderDirection,
+    })) {
       batchCount++;
       allItems = [...allItems, ...items];
 
       // Report progress
       if (onProgress) {
-        onProgress({
-          loaded: allItems.length,
-          total: hasMore ? undefined : allItems.length,
-        });
+        onProgress({ loaded: allItems.length });
       }
 
-      // Check if we need to fetch more
-      if (!hasMore || items.length === 0) {
+      if (batchCount >= maxBatches) {
+        complete = false;
         break;
       }
+    }
 
-      // Update pagination cursor
-      const lastItem = items[items.length - 1];
-      lastTimestamp = parseInt(lastItem.latestRequestSubmissionTime);
+    if (signal?.aborted) {
+      log.debug("Fetch aborted");
+      return { items: [], stats: { batches: 0, total: 0 } };
     }
 
-    // Update cache
-    itemsCache.set(cacheKey, allItems);
+    if (onProgress && complete) {
+      onProgress({ loaded: allItems.length, total: allItems.length });
+    }
+
+    // Only cache complete lists, a later call without maxBatches must not get a truncated one
+    if (complete) {
+      itemsCache.set(cacheKey, allItems);
+    }
 
     return {
       items: allItems,
       stats: { batches: batchCount, total: allItems.length },
     };
   } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      console.log("Fetch aborted");
-      return { items: [], stats: { batches: 0, total: 0 } };
-    }
-
-    console.error("Error fetching items:", error);
-    if (typeof toast !== "undefined") {
-      toast.error("Failed to load all items. Please try again later.");
-    }
+    log.error("Error fetching items:", error);
+    notify({
+      level: "error",
+      message: "Failed to load all items. Please try again later.",
+      error,
+    });
     return { items: [], stats: { batches: 0, total: 0 } };
   }
 }
@@ -302,7 +774,7 @@ export async function fetchItems(
  * Fetches multiple items by IDs
  * @param registryAddress The address of the registry contract
  * @param itemID Array of item IDs
- * @param chainId The chain ID (1 for Ethereum Mainnet, 100 for Gnosis Chain)
+ * @param chainId The chain ID (any chain registered in the chain registry)
  * @param options Additional options for fetching
  * @returns Object containing items array and stats
  */
@@ -326,12 +798,124 @@ export async function fetchItemsById(
   return result;
 }
 
+/**
+ * Fetches every subgraph field of a single item, including all requests,
+ * rounds, contributions and evidence metadata
+ * @param registryAddress The address of the registry contract
+ * @param itemID The ID of the item
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns The item details, or null if the item does not exist
+ */
+export async function fetchItemDetails(
+  registryAddress: string,
+  itemID: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<LItemDetails | null> {
+  const { customSubgraphUrl, signal } = options;
+
+  try {
+    const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+    const query = `
+      query GetItemDetails($id: ID!) {
+        litem(id: $id) {
+          ${ITEM_DETAIL_FIELDS}
+        }
+      }
+    `;
+
+    // LItem entity IDs have the format <itemID>@<registryAddress>
+    const result = await makeGraphQLRequest<{
+      data: { litem: LItemDetails | null };
+    }>(subgraphUrl, query, signal, {
+      id: `${itemID.toLowerCase()}@${registryAddress.toLowerCase()}`,
+    });
+
+    if (!result.data) {
+      throw new SubgraphError("Received invalid data format");
+    }
+
+    return result.data.litem;
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      log.debug("Fetch aborted");
+      return null;
+    }
+
+    log.error("Error fetching item details:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a registry's subgraph entity: item counts per status, current
+ * MetaEvidence and registry metadata
+ * @param registryAddress The address of the registry contract
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns The registry entity, or null if the registry is not indexed
+ */
+export async function fetchRegistryData(
+  registryAddress: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<LRegistry | null> {
+  const { customSubgraphUrl, signal } = options;
+
+  const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+  const query = `
+    query GetRegistry($id: ID!) {
+      lregistry(id: $id) {
+        id
+        registrationMetaEvidence {
+          id
+          URI
+        }
+        clearingMetaEvidence {
+          id
+          URI
+        }
+        metaEvidenceCount
+        numberOfAbsent
+        numberOfRegistered
+        numberOfRegistrationRequested
+        numberOfClearingRequested
+        numberOfChallengedRegistrations
+        numberOfChallengedClearing
+        connectedTCR
+        metadata {
+          ${REGISTRY_METADATA_FIELDS}
+        }
+      }
+    }
+  `;
+
+  const result = await makeGraphQLRequest<{
+    data: { lregistry: LRegistry | null };
+  }>(subgraphUrl, query, signal, { id: registryAddress.toLowerCase() });
+
+  if (!result.data) {
+    throw new SubgraphError("Received invalid data format");
+  }
+
+  return result.data.lregistry;
+}
+
 /**
  * Fetches items by status
  */
 export async function fetchItemsByStatus(
   registryAddress: string,
-  status: string[],
+  status: LItemStatus[],
   chainId: SupportedChainId = 1,
   options: {
     customSubgraphUrl?: string;
@@ -349,26 +933,388 @@ export async function fetchItemsByStatus(
   return result;
 }
 
+/**
+ * Fetches items whose indexed values (LItemMetadata key0..key4) contain the
+ * given values, ignoring case. The subgraph indexes the first five columns of
+ * the MetaEvidence, keyN holding the value of column N. Callers should confirm
+ * exact matches against the returned metadata props.
+ * @param registryAddress The address of the registry contract
+ * @param identifiers Values to match, indexed by their column's position in
+ * the MetaEvidence (at most 5 positions). Positions left undefined are not matched.
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns The matching items
+ */
+export async function fetchItemsByIdentifiers(
+  registryAddress: string,
+  identifiers: (string | undefined)[],
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<LItem[]> {
+  const { customSubgraphUrl, signal } = options;
+
+  const metadataWhere: Record<string, string> = {};
+  identifiers.forEach((value, index) => {
+    if (value !== undefined) {
+      metadataWhere[`key${index}_contains_nocase`] = value;
+    }
+  });
+
+  if (identifiers.length > 5 || Object.keys(metadataWhere).length === 0) {
+    throw new Error(
+      "Between 1 and 5 identifier values are required, indexed by column (key0..key4)"
+    );
+  }
+
+  const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+  const items = await fetchItemsPage(
+    subgraphUrl,
+    { registry: registryAddress.toLowerCase(), metadata_: metadataWhere },
+    "latestRequestSubmissionTime",
+    "desc",
+    BATCH_SIZE,
+    signal
+  );
+
+  return items;
+}
+
+/**
+ * Fetches the contributions of an address that still hold withdrawable fees or rewards
+ * @param registryAddress The address of the registry contract
+ * @param contributor The address that made the contributions
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns Array of withdrawable contributions in the registry
+ */
+export async function fetchWithdrawableContributions(
+  registryAddress: string,
+  contributor: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+  } = {}
+): Promise<LContribution[]> {
+  const { customSubgraphUrl, signal } = options;
+
+  const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+  const query = `
+    query GetWithdrawableContributions($contributor: Bytes!, $first: Int!, $skip: Int!) {
+      lcontributions(
+        first: $first
+        skip: $skip
+        where: { contributor: $contributor, withdrawable: true }
+      ) {
+        id
+        contributor
+        withdrawable
+        side
+        round {
+          id
+          request {
+            id
+            registryAddress
+            item {
+              itemID
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const contributions: LContribution[] = [];
+  let skip = 0;
+
+  while (true) {
+    const result = await makeGraphQLRequest<{
+      data: { lcontributions: LContribution[] };
+    }>(subgraphUrl, query, signal, {
+      contributor: contributor.toLowerCase(),
+      first: BATCH_SIZE,
+      skip,
+    });
+
+    if (!result.data || !Array.isArray(result.data.lcontributions)) {
+      throw new SubgraphError("Received invalid data format");
+    }
+
+    contributions.push(...result.data.lcontributions);
+
+    if (result.data.lcontributions.length < BATCH_SIZE) {
+      break;
+    }
+    skip += BATCH_SIZE;
+  }
+
+  // Contributions are indexed across all registries, keep only this one
+  return contributions.filter(
+    (contribution) =>
+      contribution.round.request.registryAddress.toLowerCase() ===
+      registryAddress.toLowerCase()
+  );
+}
+
+/**
+ * Turns free text into a full-text search expression. Every word is matched as
+ * a prefix and all words must match, e.g. "kleros sco" -> "kleros:* & sco:*"
+ */
+function toFulltextQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .map((word) => word.replace(/[&|!():*<>'"\\]/g, ""))
+    .filter((word) => word.length > 0)
+    .map((word) => `${word}:*`)
+    .join(" & ");
+}
+
+/**
+ * Searches the items of a registry using the subgraph's itemSearch full-text index
+ * @param registryAddress The address of the registry contract
+ * @param text The text to search for (item names, addresses, ...)
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for searching
+ * @returns Results ordered by rank, and whether more pages are available
+ */
+export async function searchItems(
+  registryAddress: string,
+  text: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    forceRefresh?: boolean;
+    signal?: AbortSignal;
+    first?: number;
+    skip?: number;
+  } = {}
+): Promise<{ results: ItemSearchResult[]; hasMore: boolean }> {
+  const {
+    customSubgraphUrl,
+    forceRefresh = false,
+    signal,
+    first = SEARCH_PAGE_SIZE,
+    skip = 0,
+  } = options;
+
+  const searchText = toFulltextQuery(text);
+  if (!searchText) {
+    return { results: [], hasMore: false };
+  }
+
+  // Check cache
+  const cacheKey = `items-${chainId}-${registryAddress.toLowerCase()}-${searchText}-${first}-${skip}`;
+
+  if (!forceRefresh && searchCache.has(cacheKey)) {
+    return searchCache.get(cacheKey) as {
+      results: ItemSearchResult[];
+      hasMore: boolean;
+    };
+  }
+
+  try {
+    const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+    const query = `
+      query SearchItems($text: String!, $registry: Bytes!, $first: Int!, $skip: Int!) {
+        itemSearch(
+          text: $text
+          first: $first
+          skip: $skip
+          where: { item_: { registryAddress: $registry } }
+        ) {
+          id
+          item {
+            ${ITEM_FIELDS}
+          }
+        }
+      }
+    `;
+
+    const result = await makeGraphQLRequest<{
+      data: { itemSearch: { id: string; item: LItem | null }[] };
+    }>(subgraphUrl, query, signal, {
+      text: searchText,
+      registry: registryAddress.toLowerCase(),
+      first,
+      skip,
+    });
+
+    if (!result.data || !Array.isArray(result.data.itemSearch)) {
+      throw new SubgraphError("Received invalid data format");
+    }
+
+    // The index returns metadata entities in rank order
+    const results = result.data.itemSearch
+      .filter((metadata) => metadata.item !== null)
+      .map((metadata, index) => ({
+        rank: skip + index + 1,
+        item: metadata.item as LItem,
+      }));
+
+    const page = {
+      results,
+      hasMore: result.data.itemSearch.length === first,
+    };
+
+    // Update cache
+    searchCache.set(cacheKey, page);
+
+    return page;
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      log.debug("Search aborted");
+      return { results: [], hasMore: false };
+    }
+
+    log.error("Error searching items:", error);
+    notify({
+      level: "error",
+      message: "Failed to search items. Please try again later.",
+      error,
+    });
+    return { results: [], hasMore: false };
+  }
+}
+
+/**
+ * Searches registries by title, description and item name using the
+ * subgraph's registrySearch full-text index
+ * @param text The text to search for
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for searching
+ * @returns Results ordered by rank, and whether more pages are available
+ */
+export async function searchRegistries(
+  text: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    forceRefresh?: boolean;
+    signal?: AbortSignal;
+    first?: number;
+    skip?: number;
+  } = {}
+): Promise<{ results: RegistrySearchResult[]; hasMore: boolean }> {
+  const {
+    customSubgraphUrl,
+    forceRefresh = false,
+    signal,
+    first = SEARCH_PAGE_SIZE,
+    skip = 0,
+  } = options;
+
+  const searchText = toFulltextQuery(text);
+  if (!searchText) {
+    return { results: [], hasMore: false };
+  }
+
+  // Check cache
+  const cacheKey = `registries-${chainId}-${searchText}-${first}-${skip}`;
+
+  if (!forceRefresh && searchCache.has(cacheKey)) {
+    return searchCache.get(cacheKey) as {
+      results: RegistrySearchResult[];
+      hasMore: boolean;
+    };
+  }
+
+  try {
+    const subgraphUrl = getSubgraphUrl(chainId, customSubgraphUrl);
+
+    const query = `
+      query SearchRegistries($text: String!, $first: Int!, $skip: Int!) {
+        registrySearch(text: $text, first: $first, skip: $skip) {
+          ${REGISTRY_METADATA_FIELDS}
+          registry {
+            id
+          }
+        }
+      }
+    `;
+
+    const result = await makeGraphQLRequest<{
+      data: {
+        registrySearch: (LRegistryMetadata & {
+          registry: { id: string } | null;
+        })[];
+      };
+    }>(subgraphUrl, query, signal, { text: searchText, first, skip });
+
+    if (!result.data || !Array.isArray(result.data.registrySearch)) {
+      throw new SubgraphError("Received invalid data format");
+    }
+
+    // The index returns metadata entities in rank order
+    const results = result.data.registrySearch
+      .filter((metadata) => metadata.registry !== null)
+      .map(({ registry, ...metadata }, index) => ({
+        rank: skip + index + 1,
+        registryAddress: (registry as { id: string }).id,
+        metadata,
+      }));
+
+    const page = {
+      results,
+      hasMore: result.data.registrySearch.length === first,
+    };
+
+    // Update cache
+    searchCache.set(cacheKey, page);
+
+    return page;
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      log.debug("Search aborted");
+      return { results: [], hasMore: false };
+    }
+
+    log.error("Error searching registries:", error);
+    notify({
+      level: "error",
+      message: "Failed to search registries. Please try again later.",
+      error,
+    });
+    return { results: [], hasMore: false };
+  }
+}
+
 /**
  * Clears the items cache
  * @param registryAddress Optional registry address
  * @param chainId Optional chain ID
  * @param filters Optional filters to further narrow cache entries to clear
+ * @param orderBy Optional ordering the entry was fetched with (as passed to fetchItems)
+ * @param orderDirection Optional order direction the entry was fetched with
  */
 export function clearItemsCache(
   registryAddress?: string,
   chainId?: SupportedChainId,
-  filters?: Record<string, string[]>
+  filters?: ItemFilters,
+  orderBy?: ItemOrderField,
+  orderDirection?: OrderDirection
 ): void {
   // Clear entire cache if no parameters
   if (!registryAddress && !chainId && !filters) {
     itemsCache.clear();
+    searchCache.clear();
     return;
   }
 
   // Only clear specific cache entries when all required parameters are provided
   if (registryAddress && chainId) {
-    const cacheKey = generateCacheKey(chainId, registryAddress, filters);
+    const cacheKey = generateCacheKey(
+      chainId,
+      registryAddress,
+      filters,
+      orderBy,
+      orderDirection
+    );
     itemsCache.delete(cacheKey);
   }
 
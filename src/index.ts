@@ -1,11 +1,12 @@
 // Main entry point for the package
 
 import * as klerosIpfsUtils from "./ipfs";
-import { LightCurateRegistry } from "./web3";
+import { LightCurateRegistry, LightCurateRegistryOptions } from "./web3";
 import * as graphUtils from "./graph";
 
 // Export the main classes
 export { LightCurateRegistry };
+export type { LightCurateRegistryOptions };
 
 // Export IPFS utilities
 export const ipfs = klerosIpfsUtils;
@@ -14,23 +15,84 @@ export const ipfs = klerosIpfsUtils;
 export const graph = graphUtils;
 
 // Re-export specific functions for convenience
-export const { uploadToIPFS, uploadJSONToIPFS, fetchFromIPFS } =
+export const { uploadToIPFS, uploadJSONToIPFS, uploadEvidence, fetchFromIPFS } =
   klerosIpfsUtils;
 export const {
   fetchItems,
+  iterateItems,
   fetchItemsById,
+  fetchItemDetails,
   fetchItemsByStatus,
+  fetchItemsByIdentifiers,
   clearItemsCache,
+  fetchWithdrawableContributions,
+  searchItems,
+  searchRegistries,
+  fetchRegistryData,
 } = graphUtils;
 
-// Export constants
-export const SUPPORTED_CHAINS = {
-  ETHEREUM_MAINNET: 1,
-  GNOSIS_CHAIN: 100,
-} as const;
+// Export registry summary
+export { fetchRegistry } from "./registry";
 
-export type SupportedChainId =
-  (typeof SUPPORTED_CHAINS)[keyof typeof SUPPORTED_CHAINS];
+// Export item decoding
+export { decodeItems, validateItemValues, computeItemID } from "./items";
+
+// Export MetaEvidence parsing
+export { parseMetaEvidence } from "./metaevidence";
+
+// Export evidence timeline
+export { getEvidenceTimeline } from "./evidence";
+
+// Export item lifecycle
+export { getItemLifecycle } from "./lifecycle";
+
+// Export appeal fee calculation
+export { calculateAppealFees } from "./appeals";
+
+// Export error classes
+export {
+  LightCurateError,
+  UserRejectedError,
+  WrongChainError,
+  SignerUnavailableError,
+  InsufficientFundsError,
+  ContractRevertError,
+  TransactionError,
+  TransactionTimeoutError,
+  SubgraphError,
+  IpfsError,
+  NotChallengeableError,
+  NotExecutableError,
+  NotDisputedError,
+  AppealFullyFundedError,
+  AppealWindowClosedError,
+  ItemValidationError,
+  DuplicateItemError,
+  toLightCurateError,
+} from "./errors";
+
+// Export chain registry
+export {
+  SUPPORTED_CHAINS,
+  DEFAULT_IPFS_GATEWAY,
+  registerChain,
+  getChainConfig,
+  isSupportedChain,
+  getSupportedChainIds,
+} from "./chains";
+export type { SupportedChainId, ChainConfig } from "./chains";
+
+// Export logging configuration
+export { configureLogging } from "./logger";
+export type {
+  LogLevel,
+  Logger,
+  LoggingConfig,
+  Notification,
+  Notifier,
+} from "./logger";
 
 // Export types
 export * from "./types";
+export * from "./signer";
+export * from "./contracts";
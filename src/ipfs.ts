@@ -1,3 +1,8 @@
+import { DEFAULT_IPFS_GATEWAY } from "./chains";
+import { IpfsError } from "./errors";
+import { log } from "./logger";
+import { EvidenceDocument, EvidenceInput } from "./types";
+
 interface IPFSResponse {
   cids: string[];
   size: number;
@@ -22,41 +27,105 @@ export const uploadToIPFS = async (
     );
 
     if (!response.ok) {
-      throw new Error(`Failed to upload to IPFS: ${response.statusText}`);
+      throw new IpfsError(`Failed to upload to IPFS: ${response.statusText}`);
     }
 
     const result = (await response.json()) as IPFSResponse;
     const cid = result.cids[0]; // Extract the first CID from the cids array
 
-    console.log("Uploaded to IPFS:", cid);
+    log.debug("Uploaded to IPFS:", cid);
     return cid;
   } catch (error) {
-    console.error("IPFS upload error:", error);
-    throw error;
+    log.error("IPFS upload error:", error);
+    if (error instanceof IpfsError) {
+      throw error;
+    }
+    throw new IpfsError(
+      `Failed to upload to IPFS: ${(error as Error).message}`,
+      {
+        cause: error,
+      }
+    );
   }
 };
 
-export const uploadJSONToIPFS = async (data: any): Promise<string> => {
+export const uploadJSONToIPFS = async (
+  data: any,
+  fileName: string = "item.json"
+): Promise<string> => {
   const jsonString = JSON.stringify(data, null, 2);
   const jsonBytes = new TextEncoder().encode(jsonString);
 
-  return uploadToIPFS(jsonBytes, "item.json");
+  return uploadToIPFS(jsonBytes, fileName);
+};
+
+const toIpfsPath = (cid: string) =>
+  cid.startsWith("/ipfs/") ? cid : `/ipfs/${cid}`;
+
+/**
+ * Builds an ERC-1497 evidence document, uploading the attached file first
+ * @param evidence The evidence title, description and optional file
+ * @returns The `/ipfs/` path of the evidence JSON, ready for submitEvidence,
+ * removeItem or challengeRequest
+ */
+export const uploadEvidence = async (
+  evidence: EvidenceInput
+): Promise<string> => {
+  const title = evidence.title.trim();
+  if (!title) {
+    throw new Error("Evidence requires a title");
+  }
+
+  // ERC-1497 names the title `name`, Kleros interfaces read `title`
+  const document: EvidenceDocument = {
+    name: title,
+    title,
+    description: evidence.description,
+  };
+
+  if (evidence.file) {
+    const { data, name } = evidence.file;
+    const bytes =
+      data instanceof Uint8Array
+        ? data
+        : new Uint8Array(await data.arrayBuffer());
+
+    document.fileURI = toIpfsPath(await uploadToIPFS(bytes, name));
+
+    const extension = name.includes(".")
+      ? name.substring(name.lastIndexOf(".") + 1).toLowerCase()
+      : "";
+    if (extension) {
+      document.fileTypeExtension = extension;
+    }
+  }
+
+  return toIpfsPath(await uploadJSONToIPFS(document, "evidence.json"));
 };
 
-export async function fetchFromIPFS(ipfsPath: string): Promise<any> {
+export async function fetchFromIPFS(
+  ipfsPath: string,
+  gateway: string = DEFAULT_IPFS_GATEWAY
+): Promise<any> {
   try {
     // Remove '/ipfs/' prefix if present
     const cleanPath = ipfsPath.replace(/^\/ipfs\//, "");
-    const url = `https://cdn.kleros.link/ipfs/${cleanPath}`;
+    const url = `${gateway.replace(/\/$/, "")}/ipfs/${cleanPath}`;
 
     const response = await fetch(url);
     if (!response.ok) {
-      throw new Error(`Failed to fetch from IPFS: ${response.statusText}`);
+      throw new IpfsError(`Failed to fetch from IPFS: ${response.statusText}`);
     }
 
     return await response.json();
   } catch (error) {
-    console.error("Error fetching from IPFS:", error);
-    throw error;
+    log.error("Error fetching from IPFS:", error);
+    if (error instanceof IpfsError) {
+      throw error;
+    }
+    throw new IpfsError(
+      `Failed to fetch ${ipfsPath} from IPFS: ${(error as Error).message}`,
+      { cause: error }
+    );
   }
 }
@@ -0,0 +1,274 @@
+import {
+  DecodedItem,
+  DecodedItemValue,
+  ItemDecodeIssue,
+  ItemValueError,
+  ItemValues,
+  LItem,
+  MetaEvidenceColumn,
+} from "./types";
+import { keccak256, utf8ToBytes } from "web3-utils";
+import { fetchFromIPFS } from "./ipfs";
+import { DEFAULT_IPFS_GATEWAY } from "./chains";
+
+// Number of item documents fetched from IPFS at the same time
+const DEFAULT_DECODE_CONCURRENCY = 5;
+
+const ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+// CAIP-10 account ID: <namespace>:<chain reference>:<address>
+const RICH_ADDRESS_REGEX =
+  /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/;
+
+const isIpfsURI = (value: string) =>
+  /^\/ipfs\/\S+$/.test(value) || /^ipfs:\/\/\S+$/.test(value);
+
+const isLink = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks a single value against its column type
+ * @returns An error message, or null when the value is valid
+ */
+function validateColumnValue(
+  column: MetaEvidenceColumn,
+  value: unknown
+): string | null {
+  switch (column.type) {
+    case "boolean":
+      return typeof value === "boolean" ? null : "Expected a boolean";
+    case "number":
+      return (typeof value === "number" && Number.isFinite(value)) ||
+        (typeof value === "string" &&
+          value.trim() !== "" &&
+          Number.isFinite(Number(value)))
+        ? null
+        : "Expected a number";
+  }
+
+  if (typeof value !== "string") {
+    return "Expected a string";
+  }
+
+  switch (column.type) {
+    case "address":
+      return ADDRESS_REGEX.test(value) ? null : "Expected an 0x address";
+    case "rich address": {
+      const match = value.match(RICH_ADDRESS_REGEX);
+      if (!match) {
+        return "Expected a CAIP-10 address (e.g. eip155:1:0x...)";
+      }
+      if (match[1] === "eip155" && !ADDRESS_REGEX.test(match[3])) {
+        return "Expected an 0x address after the eip155 chain ID";
+      }
+      return null;
+    }
+    case "image":
+    case "file":
+      return isIpfsURI(value) ? null : "Expected an /ipfs/ URI";
+    case "link":
+      return isLink(value) ? null : "Expected an http(s) URL";
+    default:
+      // text, long text and column types unknown to this library
+      return null;
+  }
+}
+
+/**
+ * Validates item values against the registry's MetaEvidence columns.
+ * Identifier columns are required, other columns may be omitted.
+ * @param columns The `metadata.columns` of the registry's registration MetaEvidence
+ * @param values Item values keyed by column label
+ * @returns The validation errors, empty when the values are valid
+ */
+export function validateItemValues(
+  columns: MetaEvidenceColumn[],
+  values: ItemValues
+): ItemValueError[] {
+  const errors: ItemValueError[] = [];
+  const labels = new Set(columns.map((column) => column.label));
+
+  Object.keys(values).forEach((label) => {
+    if (!labels.has(label)) {
+      errors.push({ column: label, message: "Unknown column" });
+    }
+  });
+
+  columns.forEach((column) => {
+    const value = values[column.label];
+
+    if (value === undefined || value === "") {
+      if (column.isIdentifier) {
+        errors.push({
+          column: column.label,
+          message: "Identifier columns are required",
+        });
+      }
+      return;
+    }
+
+    const message = validateColumnValue(column, value);
+    if (message) {
+      errors.push({ column: column.label, message });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Computes the item ID the registry assigns to an item, the keccak256 hash of
+ * its data string (`keccak256(abi.encodePacked(_item))` in addItem)
+ * @param data The item data, usually an /ipfs/ path
+ * @returns The item ID as a 0x-prefixed hex string
+ */
+export function computeItemID(data: string): string {
+  return keccak256(utf8ToBytes(data));
+}
+
+/**
+ * Normalizes an identifier value for comparison. Addresses are compared
+ * case-insensitively.
+ */
+export function normalizeIdentifier(
+  column: MetaEvidenceColumn,
+  value: unknown
+): string {
+  const text = String(value ?? "").trim();
+  return column.type === "address" || column.type === "rich address"
+    ? text.toLowerCase()
+    : text;
+}
+
+/**
+ * Runs an async mapper over a list with at most `concurrency` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  values: T[],
+  concurrency: number,
+  mapper: (value: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(values.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < values.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(values[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, values.length) }, worker)
+  );
+
+  return results;
+}
+
+/**
+ * Decodes a single item against the registry columns
+ */
+async function decodeItem(
+  item: LItem,
+  columns: MetaEvidenceColumn[],
+  ipfsGateway: string
+): Promise<DecodedItem> {
+  const issues: ItemDecodeIssue[] = [];
+  const values: Record<string, DecodedItemValue> = {};
+
+  if (!item.data) {
+    issues.push({ type: "missing-data", message: "Item has no data URI" });
+    return { item, values, issues };
+  }
+
+  let document: any;
+  try {
+    document = await fetchFromIPFS(item.data, ipfsGateway);
+  } catch (error: any) {
+    issues.push({
+      type: "fetch-failed",
+      message: `Failed to fetch ${item.data}: ${error.message}`,
+    });
+    return { item, values, issues };
+  }
+
+  if (
+    !document ||
+    typeof document !== "object" ||
+    !document.values ||
+    typeof document.values !== "object" ||
+    Array.isArray(document.values)
+  ) {
+    issues.push({
+      type: "malformed",
+      message: "Item data is not a JSON object with a values object",
+    });
+    return { item, values, issues };
+  }
+
+  const props = item.metadata?.props || [];
+
+  columns.forEach((column) => {
+    if (!(column.label in document.values)) {
+      issues.push({
+        type: "missing-value",
+        message: `No value for column "${column.label}"`,
+        column: column.label,
+      });
+      return;
+    }
+
+    const value = document.values[column.label];
+    values[column.label] = { column, value };
+
+    // The subgraph indexes values as strings
+    const prop = props.find((p) => p.label === column.label);
+    if (prop && prop.value !== String(value ?? "")) {
+      issues.push({
+        type: "metadata-mismatch",
+        message: `Value of column "${column.label}" differs from the subgraph metadata ("${prop.value}")`,
+        column: column.label,
+      });
+    }
+  });
+
+  return { item, values, issues };
+}
+
+/**
+ * Resolves the IPFS data of items and matches their values to the registry's
+ * MetaEvidence columns. Items whose data is missing, cannot be fetched, is
+ * malformed or disagrees with the subgraph `metadata.props` are returned with
+ * the corresponding issues instead of throwing.
+ * @param items Items as returned by fetchItems
+ * @param columns The `metadata.columns` of the registry's registration MetaEvidence
+ * @param options Additional options for decoding
+ * @returns The decoded items, in the order they were given
+ */
+export async function decodeItems(
+  items: LItem[],
+  columns: MetaEvidenceColumn[],
+  options: {
+    concurrency?: number;
+    ipfsGateway?: string;
+  } = {}
+): Promise<DecodedItem[]> {
+  const {
+    concurrency = DEFAULT_DECODE_CONCURRENCY,
+    ipfsGateway = DEFAULT_IPFS_GATEWAY,
+  } = options;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a positive integer");
+  }
+
+  return mapWithConcurrency(items, concurrency, (item) =>
+    decodeItem(item, columns, ipfsGateway)
+  );
+}
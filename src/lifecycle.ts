@@ -0,0 +1,145 @@
+import {
+  ItemAction,
+  ItemLifecycle,
+  ItemPhase,
+  LItem,
+  LItemStatus,
+  RulingOption,
+} from "./types";
+
+type LRequest = LItem["requests"][number];
+type LRound = LRequest["rounds"][number];
+
+/**
+ * Derives the phase of a disputed request from its latest round
+ */
+function getDisputePhase(round: LRound | undefined, now: number): ItemPhase {
+  const appealPeriodStart = Number(round?.appealPeriodStart || 0);
+  const appealPeriodEnd = Number(round?.appealPeriodEnd || 0);
+
+  // A new round has no appeal period until the arbitrator rules again
+  if (!appealPeriodEnd || now < appealPeriodStart) return "awaitingRuling";
+  if (now < appealPeriodEnd) return "appealPeriod";
+  return "awaitingRulingExecution";
+}
+
+/**
+ * Derives the lifecycle of an item from its subgraph data: the phase it is in,
+ * its active request and round, the upcoming deadlines and the actions the
+ * contract currently accepts. This is a pure function, the caller provides
+ * the registry's challenge period and the current time.
+ * @param item The item, as returned by fetchItems or fetchItemsById
+ * @param challengePeriodDuration The registry's challenge period in seconds
+ * (see getRegistryParameters)
+ * @param now The current time in seconds, preferably the latest block timestamp
+ * @param account Optional account to report the role of in the active request
+ * @returns The item lifecycle
+ */
+export function getItemLifecycle(
+  item: LItem,
+  challengePeriodDuration: number,
+  now: number,
+  account?: string
+): ItemLifecycle {
+  const status = item.status as LItemStatus;
+  const isPending =
+    status === "RegistrationRequested" || status === "ClearingRequested";
+
+  // The subgraph does not guarantee request order, the latest request is the active one
+  const requests = [...(item.requests || [])].sort(
+    (a, b) => Number(a.submissionTime) - Number(b.submissionTime)
+  );
+  const requestIndex = requests.length > 0 ? requests.length - 1 : null;
+  const request = requestIndex !== null ? requests[requestIndex] : undefined;
+
+  const lifecycle: ItemLifecycle = {
+    phase: status === "Registered" ? "registered" : "absent",
+    status,
+    requestType: null,
+    requestIndex,
+    roundIndex: null,
+    currentRuling: null,
+    deadlines: {
+      challengePeriodEnd: null,
+      appealPeriodEnd: null,
+      requesterAppealDeadline: null,
+      challengerAppealDeadline: null,
+    },
+    accountRole: null,
+    allowedActions: [],
+  };
+
+  const actions: ItemAction[] = [];
+  if (status === "Absent") actions.push("submit");
+  if (status === "Registered") actions.push("requestRemoval");
+  // The contract accepts evidence for the latest request, resolved or not
+  if (request) actions.push("submitEvidence");
+
+  if (isPending && request) {
+    lifecycle.requestType =
+      status === "RegistrationRequested" ? "registration" : "removal";
+
+    if (account) {
+      const address = account.toLowerCase();
+      if (address === request.requester?.toLowerCase()) {
+        lifecycle.accountRole = "requester";
+      } else if (address === request.challenger?.toLowerCase()) {
+        lifecycle.accountRole = "challenger";
+      }
+    }
+
+    const challengePeriodEnd =
+      Number(request.submissionTime) + challengePeriodDuration;
+    lifecycle.deadlines.challengePeriodEnd = challengePeriodEnd;
+
+    if (!request.disputed) {
+      if (now <= challengePeriodEnd) {
+        lifecycle.phase = "challengePeriod";
+        actions.push("challenge");
+      } else {
+        lifecycle.phase = "executable";
+        actions.push("execute");
+      }
+    } else {
+      const rounds = request.rounds || [];
+      const round = rounds[rounds.length - 1];
+      lifecycle.roundIndex = rounds.length > 0 ? rounds.length - 1 : null;
+      lifecycle.phase = getDisputePhase(round, now);
+
+      if (round && lifecycle.phase !== "awaitingRuling") {
+        const appealPeriodStart = Number(round.appealPeriodStart);
+        const appealPeriodEnd = Number(round.appealPeriodEnd);
+        const ruling = (round.ruling || "None") as RulingOption;
+        // The loser must be funded in the first half of the appeal period
+        const loserDeadline = Math.floor(
+          (appealPeriodStart + appealPeriodEnd) / 2
+        );
+
+        lifecycle.currentRuling = ruling;
+        lifecycle.deadlines.appealPeriodEnd = appealPeriodEnd;
+        lifecycle.deadlines.requesterAppealDeadline =
+          ruling === "Reject" ? loserDeadline : appealPeriodEnd;
+        lifecycle.deadlines.challengerAppealDeadline =
+          ruling === "Accept" ? loserDeadline : appealPeriodEnd;
+
+        if (lifecycle.phase === "appealPeriod") {
+          if (
+            !round.hasPaidRequester &&
+            now < lifecycle.deadlines.requesterAppealDeadline
+          ) {
+            actions.push("fundRequesterAppeal");
+          }
+          if (
+            !round.hasPaidChallenger &&
+            now < lifecycle.deadlines.challengerAppealDeadline
+          ) {
+            actions.push("fundChallengerAppeal");
+          }
+        }
+      }
+    }
+  }
+
+  lifecycle.allowedActions = actions;
+  return lifecycle;
+}
@@ -0,0 +1,98 @@
+// Logging and notification hooks. The library is silent by default: nothing
+// is written to the console and no notifications are shown until configured.
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Logger interface, compatible with console, pino, winston and similar loggers
+ */
+export interface Logger {
+  debug: (message: string, ...args: unknown[]) => void;
+  info: (message: string, ...args: unknown[]) => void;
+  warn: (message: string, ...args: unknown[]) => void;
+  error: (message: string, ...args: unknown[]) => void;
+}
+
+/**
+ * A user-facing event, e.g. a failed fetch a UI may want to show as a toast
+ */
+export interface Notification {
+  level: "info" | "success" | "warning" | "error";
+  message: string;
+  error?: unknown;
+}
+
+export type Notifier = (notification: Notification) => void;
+
+export interface LoggingConfig {
+  /**
+   * Where log messages are written. Defaults to console.
+   */
+  logger?: Logger;
+  /**
+   * Minimum level written to the logger. Defaults to "silent".
+   */
+  level?: LogLevel;
+  /**
+   * Receives user-facing notifications. Pass null to remove.
+   */
+  notifier?: Notifier | null;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+let currentLogger: Logger = console;
+let currentLevel: LogLevel = "silent";
+let currentNotifier: Notifier | null = null;
+
+/**
+ * Configures logging and notifications for the whole library. Fields omitted
+ * keep their current value.
+ * @param config The logging configuration
+ */
+export function configureLogging(config: LoggingConfig): void {
+  if (config.level !== undefined && !LEVELS.includes(config.level)) {
+    throw new Error(
+      `Unknown log level "${config.level}". Use one of: ${LEVELS.join(", ")}`
+    );
+  }
+
+  currentLogger = config.logger ?? currentLogger;
+  currentLevel = config.level ?? currentLevel;
+  if (config.notifier !== undefined) {
+    currentNotifier = config.notifier;
+  }
+}
+
+const write =
+  (level: Exclude<LogLevel, "silent">) =>
+  (message: string, ...args: unknown[]): void => {
+    if (LEVELS.indexOf(level) >= LEVELS.indexOf(currentLevel)) {
+      currentLogger[level](message, ...args);
+    }
+  };
+
+/**
+ * Internal logger used throughout the library
+ */
+export const log: Logger = {
+  debug: write("debug"),
+  info: write("info"),
+  warn: write("warn"),
+  error: write("error"),
+};
+
+/**
+ * Sends a notification to the configured notifier, if any. Notifier errors
+ * are logged and never interrupt the library.
+ * @param notification The notification
+ */
+export function notify(notification: Notification): void {
+  if (!currentNotifier) return;
+
+  try {
+    currentNotifier(notification);
+  } catch (error) {
+    log.warn("Notifier failed:", error);
+  }
+}
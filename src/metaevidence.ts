@@ -0,0 +1,73 @@
+import { MetaEvidenceColumn, MetaEvidenceDocument } from "./types";
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * Parses a MetaEvidence JSON document, filling in defaults for optional fields
+ * @param json The MetaEvidence JSON as fetched from IPFS
+ * @returns The typed MetaEvidence document
+ */
+export function parseMetaEvidence(json: unknown): MetaEvidenceDocument {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error("Malformed MetaEvidence: expected a JSON object");
+  }
+
+  const raw = json as Record<string, any>;
+  const metadata =
+    raw.metadata && typeof raw.metadata === "object" ? raw.metadata : {};
+
+  if (metadata.columns !== undefined && !Array.isArray(metadata.columns)) {
+    throw new Error("Malformed MetaEvidence: metadata.columns is not an array");
+  }
+
+  const columns: MetaEvidenceColumn[] = (metadata.columns || []).map(
+    (column: any, index: number) => {
+      if (!column || typeof column.label !== "string") {
+        throw new Error(`Malformed MetaEvidence: column ${index} has no label`);
+      }
+      return {
+        label: column.label,
+        description: optionalString(column.description) || "",
+        type: optionalString(column.type) || "text",
+        isIdentifier: Boolean(column.isIdentifier),
+      };
+    }
+  );
+
+  const rulingOptions =
+    raw.rulingOptions &&
+    Array.isArray(raw.rulingOptions.titles) &&
+    Array.isArray(raw.rulingOptions.descriptions)
+      ? {
+          titles: raw.rulingOptions.titles,
+          descriptions: raw.rulingOptions.descriptions,
+        }
+      : undefined;
+
+  return {
+    title: optionalString(raw.title) || "",
+    description: optionalString(raw.description) || "",
+    fileURI: optionalString(raw.fileURI),
+    evidenceDisplayInterfaceURI: optionalString(
+      raw.evidenceDisplayInterfaceURI
+    ),
+    category: optionalString(raw.category),
+    question: optionalString(raw.question),
+    rulingOptions,
+    metadata: {
+      tcrTitle: optionalString(metadata.tcrTitle),
+      tcrDescription: optionalString(metadata.tcrDescription),
+      columns,
+      itemName: optionalString(metadata.itemName) || "item",
+      itemNamePlural: optionalString(metadata.itemNamePlural),
+      logoURI: optionalString(metadata.logoURI),
+      requireRemovalEvidence: Boolean(metadata.requireRemovalEvidence),
+      isTCRofTCRs: Boolean(metadata.isTCRofTCRs),
+      relTcrDisabled:
+        metadata.relTcrDisabled === undefined
+          ? undefined
+          : Boolean(metadata.relTcrDisabled),
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { RegistrySummary } from "./types";
+import { SupportedChainId } from "./chains";
+import { fetchRegistryData } from "./graph";
+import { LightCurateRegistry, LightCurateRegistryOptions } from "./web3";
+
+/**
+ * Fetches a registry summary combining the subgraph's item counts and metadata
+ * with the registry's on-chain parameters
+ * @param registryAddress The address of the registry contract
+ * @param chainId The chain ID (any chain registered in the chain registry)
+ * @param options Additional options for fetching
+ * @returns Promise resolving to the registry summary
+ */
+export async function fetchRegistry(
+  registryAddress: string,
+  chainId: SupportedChainId = 1,
+  options: {
+    customSubgraphUrl?: string;
+    signal?: AbortSignal;
+    registryOptions?: LightCurateRegistryOptions;
+  } = {}
+): Promise<RegistrySummary> {
+  const { customSubgraphUrl, signal, registryOptions } = options;
+
+  const registry = new LightCurateRegistry(
+    registryAddress,
+    chainId,
+    registryOptions
+  );
+
+  const [registryData, parameters] = await Promise.all([
+    fetchRegistryData(registryAddress, chainId, { customSubgraphUrl, signal }),
+    registry.getRegistryParameters(),
+  ]);
+
+  if (!registryData) {
+    throw new Error(
+      `Registry ${registryAddress} not found in the subgraph for chain ID: ${chainId}`
+    );
+  }
+
+  return {
+    registryAddress: registryAddress.toLowerCase(),
+    chainId,
+    metadata: registryData.metadata,
+    connectedTCR: registryData.connectedTCR,
+    registrationMetaEvidenceURI: registryData.registrationMetaEvidence.URI,
+    clearingMetaEvidenceURI: registryData.clearingMetaEvidence.URI,
+    counts: {
+      numberOfAbsent: Number(registryData.numberOfAbsent),
+      numberOfRegistered: Number(registryData.numberOfRegistered),
+      numberOfRegistrationRequested: Number(
+        registryData.numberOfRegistrationRequested
+      ),
+      numberOfClearingRequested: Number(registryData.numberOfClearingRequested),
+      numberOfChallengedRegistrations: Number(
+        registryData.numberOfChallengedRegistrations
+      ),
+      numberOfChallengedClearing: Number(
+        registryData.numberOfChallengedClearing
+      ),
+    },
+    parameters,
+  };
+}
@@ -0,0 +1,309 @@
+import type { Signer } from "ethers";
+import type Web3 from "web3";
+
+/**
+ * Minimal EIP-1193 provider interface (MetaMask, WalletConnect, Anvil/Hardhat HTTP bridges, ...)
+ */
+export interface EIP1193Provider {
+  request: (args: {
+    method: string;
+    params?: unknown[] | object;
+  }) => Promise<any>;
+}
+
+/**
+ * Signer configuration accepted by LightCurateRegistry
+ * - eip1193: an injected or custom EIP-1193 provider (browser wallets)
+ * - privateKey: a raw private key, signed locally and broadcast over JSON-RPC (Node bots, tests)
+ * - ethers: an ethers v5 Signer connected to a provider
+ */
+export type SignerConfig =
+  | { type: "eip1193"; provider: EIP1193Provider }
+  | { type: "privateKey"; privateKey: string; rpcUrl?: string }
+  | { type: "ethers"; signer: Signer };
+
+/**
+ * Transaction fields handed to a signer once the registry has built the call
+ */
+export interface TransactionRequest {
+  from: string;
+  to: string;
+  data: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: number;
+}
+
+/**
+ * A log emitted by a mined transaction
+ */
+export interface TransactionLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex?: number;
+}
+
+/**
+ * Receipt of a mined transaction, normalized across signer backends
+ */
+export interface TransactionReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  status: boolean;
+  gasUsed: bigint;
+  effectiveGasPrice?: bigint;
+  logs: TransactionLog[];
+}
+
+/**
+ * Result of a mined transaction
+ */
+export interface TransactionResult {
+  transactionHash: string;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Callbacks fired by a signer while a transaction is being sent
+ */
+export interface SendTransactionCallbacks {
+  /**
+   * The transaction was signed (by the wallet or locally) and handed to the node
+   */
+  onSigned?: () => void;
+  /**
+   * The transaction was broadcast and has a hash
+   */
+  onTransactionHash?: (transactionHash: string) => void;
+}
+
+/**
+ * Normalizes a web3.js receipt
+ * @param receipt The receipt returned by web3.js
+ * @returns The normalized receipt
+ */
+export function fromWeb3Receipt(receipt: any): TransactionReceipt {
+  return {
+    transactionHash: receipt.transactionHash.toString(),
+    blockNumber: Number(receipt.blockNumber),
+    blockHash: receipt.blockHash.toString(),
+    status: BigInt(receipt.status) === BigInt(1),
+    gasUsed: BigInt(receipt.gasUsed),
+    effectiveGasPrice:
+      receipt.effectiveGasPrice !== undefined
+        ? BigInt(receipt.effectiveGasPrice)
+        : undefined,
+    logs: (receipt.logs || []).map((log: any) => ({
+      address: log.address,
+      topics: log.topics,
+      data: log.data,
+      logIndex: log.logIndex !== undefined ? Number(log.logIndex) : undefined,
+    })),
+  };
+}
+
+/**
+ * Common interface implemented by every signer backend
+ */
+export interface TransactionSigner {
+  readonly type: SignerConfig["type"];
+  /**
+   * The EIP-1193 provider backing this signer, if any (used for wallet chain switching)
+   */
+  readonly provider?: EIP1193Provider;
+  getAddress: () => Promise<string>;
+  getChainId: () => Promise<number>;
+  /**
+   * Signs and sends a transaction, resolving once it is mined
+   */
+  sendTransaction: (
+    tx: TransactionRequest,
+    callbacks?: SendTransactionCallbacks
+  ) => Promise<TransactionResult>;
+}
+
+/**
+ * Sends a transaction through web3.js, forwarding its PromiEvent events
+ */
+async function sendWeb3Transaction(
+  web3: Web3,
+  tx: TransactionRequest,
+  callbacks: SendTransactionCallbacks = {}
+): Promise<TransactionResult> {
+  const promiEvent = web3.eth.sendTransaction(tx);
+  if (callbacks.onSigned) {
+    promiEvent.on("sent", () => callbacks.onSigned?.());
+  }
+  if (callbacks.onTransactionHash) {
+    promiEvent.on("transactionHash", (hash: string) =>
+      callbacks.onTransactionHash?.(hash.toString())
+    );
+  }
+
+  const receipt = fromWeb3Receipt(await promiEvent);
+  return { transactionHash: receipt.transactionHash, receipt };
+}
+
+/**
+ * Creates a signer backed by an EIP-1193 provider
+ * @param provider The EIP-1193 provider
+ * @returns A TransactionSigner
+ */
+export function createEip1193Signer(
+  provider: EIP1193Provider
+): TransactionSigner {
+  let web3Instance: Web3 | null = null;
+
+  const getWeb3 = async (): Promise<Web3> => {
+    if (!web3Instance) {
+      const Web3 = (await import("web3")).default;
+      web3Instance = new Web3(provider);
+    }
+    return web3Instance;
+  };
+
+  return {
+    type: "eip1193",
+    provider,
+    getAddress: async () => {
+      const accounts = await provider.request({
+        method: "eth_requestAccounts",
+      });
+      if (!accounts || accounts.length === 0) {
+        throw new Error("No account available from provider");
+      }
+      return accounts[0];
+    },
+    getChainId: async () => {
+      const chainId = await provider.request({ method: "eth_chainId" });
+      return parseInt(chainId, 16);
+    },
+    sendTransaction: async (tx, callbacks) => {
+      const web3 = await getWeb3();
+      return sendWeb3Transaction(web3, tx, callbacks);
+    },
+  };
+}
+
+/**
+ * Creates a signer from a raw private key. Transactions are signed locally and
+ * broadcast through the given JSON-RPC endpoint.
+ * @param privateKey The hex-encoded private key
+ * @param rpcUrl The JSON-RPC endpoint to broadcast to
+ * @returns A TransactionSigner
+ */
+export function createPrivateKeySigner(
+  privateKey: string,
+  rpcUrl: string
+): TransactionSigner {
+  let web3Instance: Web3 | null = null;
+  let address: string | null = null;
+
+  const getWeb3 = async (): Promise<Web3> => {
+    if (!web3Instance) {
+      const Web3 = (await import("web3")).default;
+      web3Instance = new Web3(rpcUrl);
+
+      const formattedKey = privateKey.startsWith("0x")
+        ? privateKey
+        : `0x${privateKey}`;
+      const account = web3Instance.eth.accounts.wallet.add(formattedKey)[0];
+      address = account.address;
+    }
+    return web3Instance;
+  };
+
+  return {
+    type: "privateKey",
+    getAddress: async () => {
+      await getWeb3();
+      return address as string;
+    },
+    getChainId: async () => {
+      const web3 = await getWeb3();
+      return Number(await web3.eth.getChainId());
+    },
+    sendTransaction: async (tx, callbacks) => {
+      const web3 = await getWeb3();
+      // Accounts held in the web3 wallet are signed locally before broadcasting
+      return sendWeb3Transaction(web3, tx, callbacks);
+    },
+  };
+}
+
+/**
+ * Creates a signer wrapping an ethers v5 Signer
+ * @param signer The ethers Signer (must be connected to a provider)
+ * @returns A TransactionSigner
+ */
+export function createEthersSigner(signer: Signer): TransactionSigner {
+  return {
+    type: "ethers",
+    getAddress: () => signer.getAddress(),
+    getChainId: () => signer.getChainId(),
+    sendTransaction: async (tx, callbacks = {}) => {
+      const response = await signer.sendTransaction({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gas,
+        gasPrice: tx.gasPrice,
+        maxFeePerGas: tx.maxFeePerGas,
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+        nonce: tx.nonce,
+      });
+      callbacks.onSigned?.();
+      callbacks.onTransactionHash?.(response.hash);
+
+      const receipt = await response.wait();
+      return {
+        transactionHash: receipt.transactionHash,
+        receipt: {
+          transactionHash: receipt.transactionHash,
+          blockNumber: receipt.blockNumber,
+          blockHash: receipt.blockHash,
+          status: receipt.status === 1,
+          gasUsed: receipt.gasUsed.toBigInt(),
+          effectiveGasPrice: receipt.effectiveGasPrice?.toBigInt(),
+          logs: receipt.logs.map((log) => ({
+            address: log.address,
+            topics: log.topics,
+            data: log.data,
+            logIndex: log.logIndex,
+          })),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Creates a TransactionSigner from a SignerConfig
+ * @param config The signer configuration
+ * @param defaultRpcUrl RPC URL used for private key signers without an explicit rpcUrl
+ * @returns A TransactionSigner
+ */
+export function createSigner(
+  config: SignerConfig,
+  defaultRpcUrl: string
+): TransactionSigner {
+  switch (config.type) {
+    case "eip1193":
+      return createEip1193Signer(config.provider);
+    case "privateKey":
+      return createPrivateKeySigner(
+        config.privateKey,
+        config.rpcUrl || defaultRpcUrl
+      );
+    case "ethers":
+      return createEthersSigner(config.signer);
+    default:
+      throw new Error("Unsupported signer configuration");
+  }
+}
@@ -1,5 +1,9 @@
 // Define types used throughout the package
 
+import type { LightGeneralizedTCREvents, NumberLike } from "./contracts";
+import type { TransactionReceipt, TransactionRequest } from "./signer";
+import type { LightCurateError } from "./errors";
+
 declare global {
   interface Window {
     ethereum?: any;
@@ -13,6 +17,43 @@ export enum ItemStatus {
   ClearingRequested = 3,
 }
 
+/**
+ * Result of LightGeneralizedTCR.items(itemID)
+ */
+export interface ItemInfo {
+  status: bigint;
+  sumDeposit: bigint;
+  requestCount: bigint;
+}
+
+/**
+ * Result of LightGeneralizedTCR.getRequestInfo(itemID, requestID)
+ * parties and ruling are indexed by Party: None = 0, Requester = 1, Challenger = 2
+ */
+export interface RequestInfo {
+  disputed: boolean;
+  disputeID: bigint;
+  submissionTime: bigint;
+  resolved: boolean;
+  parties: string[];
+  numberOfRounds: bigint;
+  ruling: bigint;
+  requestArbitrator: string;
+  requestArbitratorExtraData: string;
+  metaEvidenceID: bigint;
+}
+
+/**
+ * Result of LightGeneralizedTCR.getRoundInfo(itemID, requestID, roundID)
+ * amountPaid and hasPaid are indexed by Party: None = 0, Requester = 1, Challenger = 2
+ */
+export interface RoundInfo {
+  appealed: boolean;
+  amountPaid: bigint[];
+  hasPaid: boolean[];
+  feeRewards: bigint;
+}
+
 export interface DepositInfo {
   depositAmount: string;
   depositInWei: string;
@@ -24,6 +65,80 @@ export interface DepositInfo {
   challengePeriodDays: number;
 }
 
+export interface RequestExecutionStatus {
+  canExecute: boolean;
+  status: ItemStatus;
+  requestID: number;
+  submissionTime: number;
+  challengePeriodEnd: number;
+  secondsRemaining: number;
+  reason?: string;
+}
+
+export interface WithdrawableReward {
+  itemID: string;
+  requestID: number;
+  roundID: number;
+  amount: string;
+  amountWei: string;
+  withdrawable: boolean;
+  reason?: string;
+}
+
+/**
+ * Result of withdrawAllFeesAndRewards: the withdrawals that went through and
+ * the rounds that could not be checked or withdrawn
+ */
+export interface WithdrawAllResult {
+  outcomes: (WithdrawableReward & TransactionOutcome)[];
+  failures: {
+    itemID: string;
+    requestID: number;
+    roundID: number;
+    error: LightCurateError;
+  }[];
+}
+
+export interface RegistryParameters {
+  submissionBaseDepositWei: string;
+  removalBaseDepositWei: string;
+  submissionChallengeBaseDepositWei: string;
+  removalChallengeBaseDepositWei: string;
+  /** Challenge period in seconds */
+  challengePeriodDuration: number;
+  winnerStakeMultiplier: number;
+  loserStakeMultiplier: number;
+  sharedStakeMultiplier: number;
+  /** Divisor applied to the stake multipliers (10000 = 100%) */
+  multiplierDivisor: number;
+  governor: string;
+  arbitrator: string;
+  arbitratorExtraData: string;
+  relayerContract: string;
+  metaEvidenceUpdates: number;
+}
+
+export interface RegistryCounts {
+  numberOfAbsent: number;
+  numberOfRegistered: number;
+  numberOfRegistrationRequested: number;
+  numberOfClearingRequested: number;
+  numberOfChallengedRegistrations: number;
+  numberOfChallengedClearing: number;
+}
+
+export interface RegistrySummary {
+  registryAddress: string;
+  chainId: number;
+  /** Null when the registry has no parsed metadata in the subgraph */
+  metadata: LRegistryMetadata | null;
+  connectedTCR: string | null;
+  registrationMetaEvidenceURI: string;
+  clearingMetaEvidenceURI: string;
+  counts: RegistryCounts;
+  parameters: RegistryParameters;
+}
+
 // Add more types as needed...
 
 // The Graph types
@@ -88,10 +203,13 @@ export interface EvidenceGroup {
 
 export interface LItem {
   __typename?: string;
+  id: string;
   data: string;
   itemID: string;
   disputed: boolean;
+  numberOfRequests: string;
   latestRequestSubmissionTime: string;
+  latestRequestResolutionTime: string;
   metadata: {
     __typename?: string;
     props: {
@@ -128,3 +246,749 @@ export interface LItem {
   }[];
   status: string;
 }
+
+/**
+ * Item statuses as named by the subgraph
+ */
+export type LItemStatus =
+  "Absent" | "Registered" | "RegistrationRequested" | "ClearingRequested";
+
+/**
+ * Rulings as named by the subgraph: Accept sides with the requester, Reject
+ * with the challenger, None means no ruling or a refusal to arbitrate
+ */
+export type RulingOption = "None" | "Accept" | "Reject";
+
+/**
+ * Phase of an item, derived from its status, latest request and round
+ * - absent / registered: no pending request
+ * - challengePeriod: the request can be challenged
+ * - executable: the challenge period passed unchallenged, executeRequest resolves it
+ * - awaitingRuling: disputed, the arbitrator has not ruled on the current round
+ * - appealPeriod: the arbitrator ruled and appeals can be funded
+ * - awaitingRulingExecution: the appeal period ended, the ruling awaits enforcement
+ */
+export type ItemPhase =
+  | "absent"
+  | "registered"
+  | "challengePeriod"
+  | "executable"
+  | "awaitingRuling"
+  | "appealPeriod"
+  | "awaitingRulingExecution";
+
+/**
+ * Registry actions the contract currently accepts for an item
+ */
+export type ItemAction =
+  | "submit"
+  | "requestRemoval"
+  | "challenge"
+  | "execute"
+  | "submitEvidence"
+  | "fundRequesterAppeal"
+  | "fundChallengerAppeal";
+
+/**
+ * Lifecycle of an item as derived by getItemLifecycle. Deadlines are unix
+ * timestamps in seconds, null when they do not apply to the current phase.
+ */
+export interface ItemLifecycle {
+  phase: ItemPhase;
+  status: LItemStatus;
+  /**
+   * Type of the pending request, null when there is none
+   */
+  requestType: "registration" | "removal" | null;
+  /**
+   * Index of the latest request, null for items without requests
+   */
+  requestIndex: number | null;
+  /**
+   * Index of the latest round of a disputed request
+   */
+  roundIndex: number | null;
+  /**
+   * Ruling of the current round, once the arbitrator has ruled
+   */
+  currentRuling: RulingOption | null;
+  deadlines: {
+    /**
+     * Last second the pending request can be challenged
+     */
+    challengePeriodEnd: number | null;
+    appealPeriodEnd: number | null;
+    /**
+     * Deadlines to fund each side's appeal. The losing side must be funded in
+     * the first half of the appeal period.
+     */
+    requesterAppealDeadline: number | null;
+    challengerAppealDeadline: number | null;
+  };
+  /**
+   * Role of the given account in the pending request
+   */
+  accountRole: "requester" | "challenger" | null;
+  allowedActions: ItemAction[];
+}
+
+/**
+ * Operators accepted on a single item filter field
+ */
+export interface ItemFilterCondition<T> {
+  _in?: T[];
+  _not_in?: T[];
+  _gt?: T;
+  _lt?: T;
+  _contains?: T;
+}
+
+type MembershipCondition<T> = Pick<ItemFilterCondition<T>, "_in" | "_not_in">;
+type RangeCondition<T> = Pick<
+  ItemFilterCondition<T>,
+  "_in" | "_not_in" | "_gt" | "_lt"
+>;
+
+/**
+ * Filters applied to item queries. Passing an array instead of a condition
+ * object is shorthand for `_in`.
+ */
+export interface ItemFilters {
+  itemID?: string[] | Omit<ItemFilterCondition<string>, "_gt" | "_lt">;
+  data?: string[] | ItemFilterCondition<string>;
+  status?: LItemStatus[] | MembershipCondition<LItemStatus>;
+  disputed?: boolean[] | MembershipCondition<boolean>;
+  latestRequester?: string[] | MembershipCondition<string>;
+  latestChallenger?: string[] | MembershipCondition<string>;
+  numberOfRequests?: (string | number)[] | RangeCondition<string | number>;
+  latestRequestSubmissionTime?:
+    (string | number)[] | RangeCondition<string | number>;
+  latestRequestResolutionTime?:
+    (string | number)[] | RangeCondition<string | number>;
+}
+
+/**
+ * Item fields that item queries can be ordered by
+ */
+export type ItemOrderField =
+  | "latestRequestSubmissionTime"
+  | "latestRequestResolutionTime"
+  | "numberOfRequests"
+  | "id";
+
+export type OrderDirection = "asc" | "desc";
+
+/**
+ * Column types used by Curate MetaEvidence. Unknown types are kept as strings.
+ */
+export type ColumnType =
+  | "address"
+  | "rich address"
+  | "text"
+  | "number"
+  | "boolean"
+  | "image"
+  | "file"
+  | "link"
+  | "long text"
+  | (string & {});
+
+/**
+ * A column definition from the MetaEvidence `metadata.columns` array
+ */
+export interface MetaEvidenceColumn {
+  label: string;
+  description: string;
+  type: ColumnType;
+  isIdentifier?: boolean;
+}
+
+/**
+ * A parsed MetaEvidence document (ERC-1497 with Curate's `metadata` extension)
+ */
+export interface MetaEvidenceDocument {
+  title: string;
+  description: string;
+  fileURI?: string;
+  evidenceDisplayInterfaceURI?: string;
+  category?: string;
+  question?: string;
+  rulingOptions?: {
+    titles: string[];
+    descriptions: string[];
+  };
+  metadata: {
+    tcrTitle?: string;
+    tcrDescription?: string;
+    columns: MetaEvidenceColumn[];
+    itemName: string;
+    itemNamePlural?: string;
+    logoURI?: string;
+    requireRemovalEvidence: boolean;
+    isTCRofTCRs: boolean;
+    relTcrDisabled?: boolean;
+  };
+}
+
+/**
+ * A MetaEvidence event emitted by the registry. Even IDs are registration
+ * MetaEvidence, odd IDs are clearing MetaEvidence.
+ */
+export interface MetaEvidenceVersion {
+  metaEvidenceID: number;
+  type: "registration" | "clearing";
+  URI: string;
+  blockNumber: number;
+  /**
+   * Block timestamp in seconds at which this version became active
+   */
+  timestamp: number;
+  transactionHash?: string;
+}
+
+export interface RegistryMetaEvidence {
+  registration: { URI: string; document: MetaEvidenceDocument };
+  clearing: { URI: string; document: MetaEvidenceDocument };
+  /**
+   * Every MetaEvidence version in emission order, when requested
+   */
+  history?: MetaEvidenceVersion[];
+}
+
+/**
+ * A single decoded item value together with the column it belongs to
+ */
+export interface DecodedItemValue {
+  column: MetaEvidenceColumn;
+  value: unknown;
+}
+
+export interface ItemDecodeIssue {
+  type:
+    | "missing-data"
+    | "fetch-failed"
+    | "malformed"
+    | "missing-value"
+    | "metadata-mismatch";
+  message: string;
+  column?: string;
+}
+
+/**
+ * An item with its IPFS data resolved against the registry columns
+ */
+export interface DecodedItem {
+  item: LItem;
+  /**
+   * Decoded values keyed by column label, in column order
+   */
+  values: Record<string, DecodedItemValue>;
+  issues: ItemDecodeIssue[];
+}
+
+/**
+ * A registry event decoded from a transaction receipt
+ */
+export type RegistryEvent = {
+  [E in keyof LightGeneralizedTCREvents]: {
+    event: E;
+    returnValues: LightGeneralizedTCREvents[E];
+    logIndex?: number;
+  };
+}[keyof LightGeneralizedTCREvents];
+
+/**
+ * Result of a registry write method
+ */
+export interface TransactionOutcome {
+  transactionHash: string;
+  receipt: TransactionReceipt;
+  /**
+   * The item the transaction acted on
+   */
+  itemID?: string;
+  /**
+   * Index of the item's request the transaction acted on
+   */
+  requestIndex?: number;
+  /**
+   * Registry events emitted by the transaction (NewItem, RequestSubmitted,
+   * ItemStatusChange, Dispute, Contribution, ...)
+   */
+  events: RegistryEvent[];
+}
+
+/**
+ * How the registry prices transactions and sizes their gas limits
+ */
+export interface GasStrategy {
+  /**
+   * Percentage added on top of the estimated gas limit. Defaults to 20.
+   */
+  gasLimitBuffer?: number;
+  /**
+   * "eip1559" sends maxFeePerGas/maxPriorityFeePerGas, "legacy" sends
+   * gasPrice. "auto" (the default) uses EIP-1559 fees when the latest block
+   * has a base fee.
+   */
+  feeType?: "auto" | "eip1559" | "legacy";
+  /**
+   * maxFeePerGas is the latest base fee times this multiplier plus the
+   * priority fee. Defaults to 2. Only the base fee actually charged is paid.
+   */
+  baseFeeMultiplier?: number;
+  /**
+   * Priority fee in wei used when the node cannot suggest one. Defaults to 1 gwei.
+   */
+  fallbackPriorityFee?: NumberLike;
+}
+
+/**
+ * Per-call gas and nonce overrides. Sending a transaction with the nonce of a
+ * pending one and higher fees speeds it up or replaces it.
+ */
+export interface GasOverrides {
+  /**
+   * Gas limit to use instead of the buffered estimate
+   */
+  gasLimit?: NumberLike;
+  /**
+   * Legacy gas price in wei. Forces a legacy transaction.
+   */
+  gasPrice?: NumberLike;
+  /**
+   * EIP-1559 fee cap in wei
+   */
+  maxFeePerGas?: NumberLike;
+  /**
+   * EIP-1559 priority fee (tip) in wei
+   */
+  maxPriorityFeePerGas?: NumberLike;
+  nonce?: number;
+}
+
+/**
+ * Options accepted by every registry write method
+ */
+export interface TransactionOptions extends GasOverrides {
+  /**
+   * Called once the wallet (or local key) has signed the transaction
+   */
+  onSigned?: () => void;
+  /**
+   * Called when the transaction is broadcast. Persist the hash to re-attach
+   * with waitForTransaction after a page reload.
+   */
+  onTransactionHash?: (transactionHash: string) => void;
+  /**
+   * Called when the transaction is mined
+   */
+  onReceipt?: (receipt: TransactionReceipt) => void;
+  /**
+   * Called each time the number of confirmations grows, up to `confirmations`
+   */
+  onConfirmation?: (confirmations: number, receipt: TransactionReceipt) => void;
+  /**
+   * Number of confirmations to wait for before resolving. Defaults to 1 (mined).
+   */
+  confirmations?: number;
+  /**
+   * Maximum time in milliseconds to wait for the transaction to be mined and
+   * confirmed. The transaction is not cancelled when the timeout is reached.
+   */
+  timeout?: number;
+}
+
+/**
+ * Values of an item keyed by column label
+ */
+export type ItemValues = Record<string, string | number | boolean>;
+
+/**
+ * The JSON document stored on IPFS for an item
+ */
+export interface ItemDocument {
+  columns: MetaEvidenceColumn[];
+  values: ItemValues;
+}
+
+export interface ItemValueError {
+  column: string;
+  message: string;
+}
+
+export interface ItemSubmission extends TransactionOutcome {
+  ipfsPath: string;
+}
+
+/**
+ * An existing item that shares its identifiers or item ID with a new item
+ */
+export interface DuplicateItem {
+  itemID: string;
+  status: LItemStatus;
+  /**
+   * "identifiers" when every identifier column matches, "itemID" when the
+   * item data (and therefore the item ID) is identical
+   */
+  matchedOn: ("identifiers" | "itemID")[];
+  /**
+   * The subgraph item, when matched on identifiers
+   */
+  item?: LItem;
+}
+
+export interface LContribution {
+  id: string;
+  contributor: string;
+  withdrawable: boolean;
+  side: string;
+  round: {
+    id: string;
+    request: {
+      id: string;
+      registryAddress: string;
+      item: {
+        itemID: string;
+      };
+    };
+  };
+}
+
+export interface EvidenceMetadata {
+  id: string;
+  name: string | null;
+  title: string | null;
+  description: string | null;
+  fileURI: string | null;
+  fileTypeExtension: string | null;
+}
+
+export interface EvidenceDetails {
+  id: string;
+  arbitrator: string;
+  party: string;
+  URI: string;
+  number: string;
+  timestamp: string;
+  txHash: string;
+  metadata: EvidenceMetadata | null;
+}
+
+/**
+ * Evidence to upload with uploadEvidence or pass to the write methods that take evidence
+ */
+export interface EvidenceInput {
+  title: string;
+  description: string;
+  /**
+   * An attached file, uploaded to IPFS and linked from the evidence document
+   */
+  file?: {
+    data: Uint8Array | Blob;
+    /**
+     * File name, its extension is recorded as fileTypeExtension
+     */
+    name: string;
+  };
+}
+
+/**
+ * An ERC-1497 evidence document
+ */
+export interface EvidenceDocument {
+  name: string;
+  title: string;
+  description: string;
+  fileURI?: string;
+  fileTypeExtension?: string;
+}
+
+/**
+ * Role of the party that submitted a piece of evidence, relative to the
+ * request it was submitted for
+ */
+export type EvidencePartyRole = "requester" | "challenger" | "thirdParty";
+
+/**
+ * A piece of evidence in an item's timeline
+ */
+export interface EvidenceTimelineEntry {
+  id: string;
+  /**
+   * Index of the item request the evidence was submitted for
+   */
+  requestIndex: number;
+  party: string;
+  role: EvidencePartyRole;
+  URI: string;
+  timestamp: number;
+  txHash: string;
+  /**
+   * The evidence document, or null if it could not be resolved
+   */
+  document: EvidenceDocument | null;
+  /**
+   * Where the document was resolved from
+   */
+  source: "subgraph" | "ipfs" | null;
+}
+
+/**
+ * An evidence document that could not be resolved
+ */
+export interface EvidenceResolutionIssue {
+  evidenceID: string;
+  URI: string;
+  type: "fetch-failed" | "malformed";
+  message: string;
+}
+
+/**
+ * Evidence submitted across all requests of an item, in chronological order
+ */
+export interface EvidenceTimeline {
+  itemID: string;
+  entries: EvidenceTimelineEntry[];
+  issues: EvidenceResolutionIssue[];
+}
+
+export interface LContributionDetails {
+  id: string;
+  contributor: string;
+  withdrawable: boolean;
+  side: string;
+}
+
+export interface LRoundDetails {
+  id: string;
+  amountPaidRequester: string;
+  amountPaidChallenger: string;
+  hasPaidRequester: boolean;
+  hasPaidChallenger: boolean;
+  lastFundedRequester: string;
+  lastFundedChallenger: string;
+  feeRewards: string;
+  appealPeriodStart: string;
+  appealPeriodEnd: string;
+  rulingTime: string;
+  ruling: "None" | "Accept" | "Reject";
+  txHashAppealPossible: string | null;
+  txHashAppealDecision: string | null;
+  creationTime: string;
+  numberOfContributions: string;
+  appealed: boolean;
+  appealedAt: string | null;
+  contributions: LContributionDetails[];
+}
+
+export interface LRequestDetails {
+  id: string;
+  disputed: boolean;
+  disputeID: string;
+  submissionTime: string;
+  resolved: boolean;
+  requester: string;
+  challenger: string;
+  arbitrator: string;
+  arbitratorExtraData: string;
+  deposit: string;
+  disputeOutcome: "None" | "Accept" | "Reject";
+  numberOfRounds: string;
+  requestType: string;
+  metaEvidence: {
+    id: string;
+    URI: string;
+  };
+  resolutionTime: string;
+  finalRuling: string | null;
+  creationTx: string;
+  resolutionTx: string | null;
+  evidenceGroup: {
+    id: string;
+    numberOfEvidence: string;
+    evidences: EvidenceDetails[];
+  };
+  rounds: LRoundDetails[];
+}
+
+export interface LItemDetails {
+  id: string;
+  itemID: string;
+  data: string;
+  status: string;
+  numberOfRequests: string;
+  registryAddress: string;
+  latestRequestSubmissionTime: string;
+  latestRequestResolutionTime: string;
+  disputed: boolean;
+  latestRequester: string;
+  latestChallenger: string;
+  metadata: {
+    id: string;
+    props: {
+      type: string;
+      label: string;
+      description: string;
+      isIdentifier: boolean;
+      value: string | null;
+    }[];
+    key0: string | null;
+    key1: string | null;
+    key2: string | null;
+    key3: string | null;
+    key4: string | null;
+    keywords: string | null;
+  } | null;
+  requests: LRequestDetails[];
+}
+
+export interface LRegistryMetadata {
+  id: string;
+  title: string | null;
+  description: string | null;
+  itemName: string | null;
+  itemNamePlural: string | null;
+  isConnectedTCR: boolean | null;
+  requireRemovalEvidence: boolean | null;
+  isTCRofTcrs: boolean | null;
+  parentTCRAddress: string | null;
+  relTcrDisabled: boolean | null;
+}
+
+export interface ItemSearchResult {
+  /** 1-based position in the ranked results */
+  rank: number;
+  item: LItem;
+}
+
+export interface RegistrySearchResult {
+  /** 1-based position in the ranked results */
+  rank: number;
+  registryAddress: string;
+  metadata: LRegistryMetadata;
+}
+
+export interface LRegistry {
+  id: string;
+  registrationMetaEvidence: {
+    id: string;
+    URI: string;
+  };
+  clearingMetaEvidence: {
+    id: string;
+    URI: string;
+  };
+  metaEvidenceCount: string;
+  numberOfAbsent: string;
+  numberOfRegistered: string;
+  numberOfRegistrationRequested: string;
+  numberOfClearingRequested: string;
+  numberOfChallengedRegistrations: string;
+  numberOfChallengedClearing: string;
+  connectedTCR: string | null;
+  metadata: LRegistryMetadata | null;
+}
+
+/**
+ * Options accepted by the prepare* methods
+ */
+export interface PrepareOptions extends GasOverrides {
+  /**
+   * Address to simulate the call from. Defaults to the signer's address, set
+   * it to preview before a wallet is connected.
+   */
+  from?: string;
+}
+
+/**
+ * Cost breakdown of a prepared transaction, in wei and ETH. Gas figures are
+ * missing when the call reverts and no gasLimit override was given.
+ */
+export interface TransactionCost {
+  /**
+   * Value sent with the transaction (deposit or contribution)
+   */
+  valueWei: string;
+  value: string;
+  /**
+   * Gas the call used when simulated
+   */
+  gasEstimate?: string;
+  /**
+   * Gas limit sent with the transaction (estimate plus the configured buffer)
+   */
+  gasLimit?: string;
+  /**
+   * maxFeePerGas for EIP-1559 transactions, gasPrice for legacy ones
+   */
+  feePerGasWei: string;
+  /**
+   * Most the transaction can spend on gas (gasLimit * feePerGas)
+   */
+  maxGasCostWei?: string;
+  maxGasCost?: string;
+  /**
+   * Value plus the maximum gas cost: the balance the sender needs
+   */
+  totalCostWei?: string;
+  totalCost?: string;
+}
+
+/**
+ * Result of a prepare* method: what would be sent and what it would cost
+ */
+export interface TransactionPreview {
+  /**
+   * The unsigned transaction, as the write method would send it
+   */
+  transaction: TransactionRequest;
+  /**
+   * Whether the call reverts when simulated against the latest block
+   */
+  willRevert: boolean;
+  /**
+   * The decoded revert reason, if the contract provided one
+   */
+  revertReason?: string;
+  /**
+   * The deposit required by submissions, removals and challenges
+   */
+  deposit?: DepositInfo;
+  cost: TransactionCost;
+}
+
+/**
+ * Stake multipliers of a registry, as fractions of multiplierDivisor
+ */
+export interface StakeMultipliers {
+  winnerStakeMultiplier: bigint;
+  loserStakeMultiplier: bigint;
+  sharedStakeMultiplier: bigint;
+  /**
+   * The registry's MULTIPLIER_DIVISOR: a multiplier equal to it is 100%
+   */
+  multiplierDivisor: bigint;
+}
+
+/**
+ * Inputs of calculateAppealFees
+ */
+export interface AppealFeeInput extends StakeMultipliers {
+  /**
+   * The arbitrator's appealCost for the dispute, in wei
+   */
+  appealCost: bigint;
+  /**
+   * The arbitrator's current ruling (1 = Accept, 2 = Reject)
+   */
+  currentRuling: number;
+}
+
+/**
+ * Total amount each side must raise to fund an appeal, in wei
+ */
+export interface AppealFees {
+  requesterAppealFee: bigint;
+  challengerAppealFee: bigint;
+}
@@ -1,7 +1,156 @@
-import { toast } from "sonner";
+import type Web3 from "web3";
 import { AbiItem } from "web3-utils";
-import { DepositInfo, ItemStatus } from "./types";
-import { SupportedChainId } from "./index";
+import {
+  DepositInfo,
+  DuplicateItem,
+  EvidenceInput,
+  ItemDocument,
+  ItemInfo,
+  ItemStatus,
+  ItemSubmission,
+  GasOverrides,
+  GasStrategy,
+  ItemValues,
+  LContribution,
+  LItemStatus,
+  PrepareOptions,
+  MetaEvidenceColumn,
+  MetaEvidenceVersion,
+  RegistryEvent,
+  RegistryMetaEvidence,
+  RegistryParameters,
+  RequestExecutionStatus,
+  RequestInfo,
+  RoundInfo,
+  StakeMultipliers,
+  TransactionOptions,
+  TransactionOutcome,
+  TransactionPreview,
+  WithdrawAllResult,
+  WithdrawableReward,
+} from "./types";
+import {
+  ContractMethod,
+  KlerosLiquidContract,
+  LightGeneralizedTCRContract,
+  LightGeneralizedTCRMethods,
+} from "./contracts";
+import {
+  fetchItemsByIdentifiers,
+  fetchRegistryData,
+  fetchWithdrawableContributions,
+} from "./graph";
+import { fetchFromIPFS, uploadEvidence, uploadJSONToIPFS } from "./ipfs";
+import {
+  computeItemID,
+  normalizeIdentifier,
+  validateItemValues,
+} from "./items";
+import { parseMetaEvidence } from "./metaevidence";
+import { applyGasBuffer, resolveFees } from "./gas";
+import { calculateAppealFees } from "./appeals";
+import {
+  AppealFullyFundedError,
+  AppealWindowClosedError,
+  ContractRevertError,
+  DuplicateItemError,
+  ItemValidationError,
+  NotChallengeableError,
+  NotDisputedError,
+  NotExecutableError,
+  SignerUnavailableError,
+  TransactionTimeoutError,
+  UserRejectedError,
+  WrongChainError,
+  toLightCurateError,
+} from "./errors";
+import { SupportedChainId, getChainConfig } from "./chains";
+import { log, notify } from "./logger";
+import {
+  EIP1193Provider,
+  SignerConfig,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResult,
+  TransactionSigner,
+  createEip1193Signer,
+  createSigner,
+  fromWeb3Receipt,
+} from "./signer";
+
+/**
+ * How often to poll the node while waiting for a receipt or confirmations
+ */
+const TRANSACTION_POLL_INTERVAL = 4000;
+
+/**
+ * Waits for the given time, or until the deadline if it comes first
+ */
+function sleepUntil(ms: number, deadline?: number): Promise<void> {
+  const wait =
+    deadline !== undefined
+      ? Math.min(ms, Math.max(deadline - Date.now(), 0))
+      : ms;
+  return new Promise((resolve) => setTimeout(resolve, wait));
+}
+
+/**
+ * Rejects with the error built by onTimeout if the promise has not settled by the deadline
+ */
+function withDeadline<T>(
+  promise: Promise<T>,
+  deadline: number | undefined,
+  onTimeout: () => Error
+): Promise<T> {
+  if (deadline === undefined) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(onTimeout()),
+      Math.max(deadline - Date.now(), 0)
+    );
+  });
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Options for LightCurateRegistry
+ */
+export interface LightCurateRegistryOptions {
+  /**
+   * Signer used for write methods. Defaults to window.ethereum when available.
+   */
+  signer?: SignerConfig;
+  /**
+   * How transactions are priced and how much gas limit buffer is added
+   */
+  gas?: GasStrategy;
+}
+
+/**
+ * Uploads structured evidence, passing IPFS paths through unchanged
+ */
+function toEvidencePath(evidence: string | EvidenceInput): Promise<string> {
+  return typeof evidence === "string"
+    ? Promise.resolve(evidence)
+    : uploadEvidence(evidence);
+}
+
+/**
+ * A registry contract call built by a write method, with what it must be sent with
+ */
+interface RegistryCall {
+  method: ContractMethod<unknown>;
+  /**
+   * Value to send in wei (deposit or contribution)
+   */
+  value?: string;
+  deposit?: DepositInfo;
+  itemID?: string;
+  requestIndex?: number;
+}
 
 /**
  * LightCurateRegistry provides a class-based interface to interact with the LightGeneralizedTCR contract
@@ -10,59 +159,94 @@ import { SupportedChainId } from "./index";
 export class LightCurateRegistry {
   private contractAddress: string;
   private chainId: SupportedChainId;
-  private web3Instance: any = null;
-  private contractInstance: any = null;
-
-  // Supported chain IDs
-  private static readonly SUPPORTED_CHAINS = {
-    ETHEREUM_MAINNET: 1,
-    GNOSIS_CHAIN: 100,
-  } as const;
+  private web3Instance: Web3 | null = null;
+  private contractInstance: LightGeneralizedTCRContract | null = null;
+  private signerConfig?: SignerConfig;
+  private signerInstance: TransactionSigner | null = null;
+  private gasStrategy: GasStrategy;
+  private metaEvidenceHistory: {
+    fromBlock: number;
+    versions: MetaEvidenceVersion[];
+  } | null = null;
+  private stakeMultipliers: Promise<StakeMultipliers> | null = null;
 
   /**
    * Creates a new LightCurateRegistry instance
    * @param contractAddress The address of the LightGeneralizedTCR contract
-   * @param chainId The chain ID (1 for Ethereum Mainnet, 100 for Gnosis Chain)
+   * @param chainId The chain ID (any chain registered in the chain registry, see registerChain)
+   * @param options Optional settings, e.g. the signer used for write methods
    */
-  constructor(contractAddress: string, chainId: SupportedChainId) {
-    if (
-      !Object.values(LightCurateRegistry.SUPPORTED_CHAINS).includes(chainId)
-    ) {
-      throw new Error(
-        `Unsupported chain ID: ${chainId}. Supported chains are: ${Object.values(LightCurateRegistry.SUPPORTED_CHAINS).join(", ")}`
-      );
-    }
+  constructor(
+    contractAddress: string,
+    chainId: SupportedChainId,
+    options: LightCurateRegistryOptions = {}
+  ) {
+    // Throws for chains missing from the chain registry
+    getChainConfig(chainId);
 
     this.contractAddress = contractAddress;
     this.chainId = chainId;
+    this.signerConfig = options.signer;
+    this.gasStrategy = options.gas || {};
   }
 
+  /**
+   * Gets the default RPC URL for the configured chain
+   * @returns The RPC URL
+   */
+  private getRpcUrl = (): string => {
+    return getChainConfig(this.chainId).rpcUrls[0];
+  };
+
+  /**
+   * Gets the EIP-1193 provider used for reads and wallet interactions, if any
+   * @returns The configured EIP-1193 provider, window.ethereum, or undefined
+   */
+  private getEip1193Provider = (): EIP1193Provider | undefined => {
+    if (this.signerConfig) {
+      return this.signerConfig.type === "eip1193"
+        ? this.signerConfig.provider
+        : undefined;
+    }
+    return typeof window !== "undefined" && window.ethereum
+      ? window.ethereum
+      : undefined;
+  };
+
+  /**
+   * Gets or creates the signer used for write methods
+   * @returns The transaction signer
+   */
+  private getSigner = (): TransactionSigner => {
+    if (!this.signerInstance) {
+      if (this.signerConfig) {
+        this.signerInstance = createSigner(this.signerConfig, this.getRpcUrl());
+      } else if (typeof window !== "undefined" && window.ethereum) {
+        this.signerInstance = createEip1193Signer(window.ethereum);
+      } else {
+        throw new SignerUnavailableError();
+      }
+    }
+    return this.signerInstance;
+  };
+
   /**
    * Gets or creates a Web3 instance
-   * @param provider Optional provider to use (defaults to window.ethereum or Infura)
+   * @param provider Optional provider to use (defaults to the signer's EIP-1193 provider, window.ethereum or a public RPC)
    * @returns A Web3 instance
    */
-  private getWeb3 = async (provider?: any): Promise<any> => {
+  private getWeb3 = async (provider?: any): Promise<Web3> => {
     if (!this.web3Instance) {
       const Web3 = (await import("web3")).default;
 
-      let rpcUrl;
-      if (
-        this.chainId === LightCurateRegistry.SUPPORTED_CHAINS.ETHEREUM_MAINNET
-      ) {
-        rpcUrl = "https://rpc.ankr.com/eth";
-      } else if (
-        this.chainId === LightCurateRegistry.SUPPORTED_CHAINS.GNOSIS_CHAIN
-      ) {
-        rpcUrl = "https://gnosis-pokt.nodies.app";
-      } else {
-        throw new Error(
-          `Unsupported chain ID: ${this.chainId}. Supported chains are: ${Object.values(LightCurateRegistry.SUPPORTED_CHAINS).join(", ")}`
-        );
-      }
+      // Private key signers read from the same node they broadcast to
+      const rpcUrl =
+        this.signerConfig?.type === "privateKey" && this.signerConfig.rpcUrl
+          ? this.signerConfig.rpcUrl
+          : this.getRpcUrl();
 
       this.web3Instance = new Web3(
-        provider || (typeof window !== "undefined" && window.ethereum) || rpcUrl
+        provider || this.getEip1193Provider() || rpcUrl
       );
     }
     return this.web3Instance;
@@ -72,7 +256,7 @@ export class LightCurateRegistry {
    * Gets or creates a contract instance
    * @returns The contract instance
    */
-  private getContract = async (): Promise<any> => {
+  private getContract = async (): Promise<LightGeneralizedTCRContract> => {
     if (!this.contractInstance) {
       const web3 = await this.getWeb3();
       const LCURATE_ABI = (
@@ -82,35 +266,415 @@ export class LightCurateRegistry {
       this.contractInstance = new web3.eth.Contract(
         LCURATE_ABI as AbiItem[],
         this.contractAddress
-      );
+      ) as unknown as LightGeneralizedTCRContract;
     }
     return this.contractInstance;
   };
 
   /**
-   * Connects to the user's Ethereum wallet and ensures correct chain
-   * @returns Promise resolving to the connected account address
+   * Decodes the registry events emitted in a transaction receipt
+   * @param receipt The transaction receipt
+   * @returns The decoded events, in log order
    */
-  connectWallet = async (): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
+  private decodeRegistryEvents = async (
+    receipt: TransactionReceipt
+  ): Promise<RegistryEvent[]> => {
+    const web3 = await this.getWeb3();
+    const LCURATE_ABI = (
+      await import("./references/LightCurate/LightGeneralizedTCR_ABI.json")
+    ).default;
+    const eventAbis = LCURATE_ABI.filter((item) => item.type === "event");
+
+    const events: RegistryEvent[] = [];
+    receipt.logs.forEach((log) => {
+      if (log.address.toLowerCase() !== this.contractAddress.toLowerCase()) {
+        return;
+      }
+
+      const abi = eventAbis.find(
+        (item) =>
+          web3.eth.abi.encodeEventSignature(item as any) ===
+          log.topics[0]?.toLowerCase()
+      );
+      if (!abi || !abi.inputs) return;
+
+      const decoded = web3.eth.abi.decodeLog(
+        abi.inputs as any,
+        log.data,
+        log.topics.slice(1)
+      );
+      const returnValues: Record<string, unknown> = {};
+      abi.inputs.forEach((input) => {
+        returnValues[input.name as string] = decoded[input.name as string];
+      });
+
+      events.push({
+        event: abi.name,
+        returnValues,
+        logIndex: log.logIndex,
+      } as RegistryEvent);
+    });
+
+    return events;
+  };
+
+  /**
+   * Builds the result of a write method from the mined transaction. Failing to
+   * decode events or read the request index does not fail the write method.
+   * @param result The mined transaction
+   * @param itemID The item the transaction acted on
+   * @param requestIndex The request index, read from the item at the receipt's block when omitted
+   * @returns The transaction outcome
+   */
+  private toTransactionOutcome = async (
+    result: TransactionResult,
+    itemID?: string,
+    requestIndex?: number
+  ): Promise<TransactionOutcome> => {
+    let events: RegistryEvent[] = [];
+    try {
+      events = await this.decodeRegistryEvents(result.receipt);
+    } catch (error) {
+      log.warn("Failed to decode registry events:", error);
+    }
+
+    if (itemID !== undefined && requestIndex === undefined) {
+      try {
+        const contract = await this.getContract();
+        const { numberOfRequests } = await contract.methods
+          .getItemInfo(itemID)
+          .call({}, result.receipt.blockNumber);
+        if (numberOfRequests > BigInt(0)) {
+          requestIndex = Number(numberOfRequests) - 1;
+        }
+      } catch (error) {
+        log.warn("Failed to read the request index:", error);
+      }
+    }
+
+    return {
+      transactionHash: result.transactionHash,
+      receipt: result.receipt,
+      itemID,
+      requestIndex,
+      events,
+    };
+  };
+
+  /**
+   * Waits until a mined transaction has the requested number of confirmations
+   * @param receipt The receipt of the mined transaction
+   * @param options The confirmation options
+   * @param deadline Timestamp (ms) after which a TransactionTimeoutError is thrown
+   */
+  private waitForConfirmations = async (
+    receipt: TransactionReceipt,
+    options: TransactionOptions,
+    deadline?: number
+  ): Promise<void> => {
+    const { confirmations = 1, onConfirmation, timeout } = options;
+    const web3 = await this.getWeb3();
+    let reported = 0;
+
+    for (;;) {
+      const blockNumber = Number(await web3.eth.getBlockNumber());
+      // The block including the transaction counts as the first confirmation
+      const current = Math.min(
+        Math.max(blockNumber - receipt.blockNumber + 1, 1),
+        confirmations
+      );
+      while (reported < current) {
+        reported++;
+        onConfirmation?.(reported, receipt);
+      }
+      if (reported >= confirmations) return;
+
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw new TransactionTimeoutError(
+          timeout as number,
+          receipt.transactionHash
+        );
+      }
+      await sleepUntil(TRANSACTION_POLL_INTERVAL, deadline);
+    }
+  };
+
+  /**
+   * Builds a registry transaction, estimating its gas limit and pricing it
+   * with the gas strategy unless overridden
+   * @param method The contract method bound to its arguments
+   * @param from The sender address
+   * @param value The value to send in wei, if any
+   * @param overrides Per-call gas limit, fee and nonce overrides
+   * @param gasEstimate A gas estimate already computed, or null to leave the
+   * gas limit unset (e.g. for a call that reverts)
+   * @returns The transaction, ready to be signed
+   */
+  private buildTransaction = async (
+    method: ContractMethod<unknown>,
+    from: string,
+    value: string | undefined,
+    overrides: GasOverrides = {},
+    gasEstimate?: bigint | null
+  ): Promise<TransactionRequest> => {
+    const web3 = await this.getWeb3();
+    const callOptions = value !== undefined ? { from, value } : { from };
+
+    let gasLimit: bigint | undefined;
+    if (overrides.gasLimit !== undefined) {
+      gasLimit = BigInt(overrides.gasLimit);
+    } else if (gasEstimate !== null) {
+      gasLimit = applyGasBuffer(
+        gasEstimate ?? (await method.estimateGas(callOptions)),
+        this.gasStrategy
       );
     }
+    const fees = await resolveFees(web3, this.gasStrategy, overrides);
+
+    const tx: TransactionRequest = {
+      ...callOptions,
+      to: this.contractAddress,
+      data: method.encodeABI(),
+      ...(gasLimit !== undefined && { gas: gasLimit.toString() }),
+      ...fees,
+    };
+    if (overrides.nonce !== undefined) {
+      tx.nonce = overrides.nonce;
+    }
+    return tx;
+  };
+
+  /**
+   * Builds and sends a registry call
+   * @param call The call built by the write method
+   * @param from The sender address
+   * @param txOptions Gas overrides, lifecycle callbacks, confirmations and timeout
+   * @returns The transaction outcome
+   */
+  private sendRegistryCall = async (
+    call: RegistryCall,
+    from: string,
+    txOptions: TransactionOptions
+  ): Promise<TransactionOutcome> => {
+    const tx = await this.buildTransaction(
+      call.method,
+      from,
+      call.value,
+      txOptions
+    );
+    return this.sendRegistryTransaction(
+      tx,
+      txOptions,
+      call.itemID,
+      call.requestIndex
+    );
+  };
+
+  /**
+   * Simulates a registry call against the latest block and prices it,
+   * without sending anything
+   * @param call The call built by the write method
+   * @param options The sender to simulate from and gas overrides
+   * @returns The unsigned transaction, whether it would revert and its cost
+   */
+  private previewCall = async (
+    call: RegistryCall,
+    options: PrepareOptions
+  ): Promise<TransactionPreview> => {
+    const { from: sender, ...overrides } = options;
+    const from = sender ?? (await this.getSigner().getAddress());
+    const web3 = await this.getWeb3();
+    const callOptions =
+      call.value !== undefined ? { from, value: call.value } : { from };
+
+    let revertReason: string | undefined;
+    let gasEstimate: bigint | null = null;
+    try {
+      await call.method.call(callOptions);
+      gasEstimate = BigInt(await call.method.estimateGas(callOptions));
+    } catch (error) {
+      const classified = toLightCurateError(error, "Simulation failed");
+      if (!(classified instanceof ContractRevertError)) {
+        throw classified;
+      }
+      revertReason = classified.reason || undefined;
+    }
+
+    const transaction = await this.buildTransaction(
+      call.method,
+      from,
+      call.value,
+      overrides,
+      gasEstimate
+    );
+
+    const toEth = (wei: bigint) => web3.utils.fromWei(wei.toString(), "ether");
+    const valueWei = BigInt(call.value ?? 0);
+    const feePerGas = BigInt(
+      transaction.maxFeePerGas ?? transaction.gasPrice ?? 0
+    );
+    const maxGasCostWei =
+      transaction.gas !== undefined
+        ? BigInt(transaction.gas) * feePerGas
+        : undefined;
+
+    return {
+      transaction,
+      willRevert: gasEstimate === null,
+      revertReason,
+      deposit: call.deposit,
+      cost: {
+        valueWei: valueWei.toString(),
+        value: toEth(valueWei),
+        gasEstimate: gasEstimate?.toString(),
+        gasLimit: transaction.gas,
+        feePerGasWei: feePerGas.toString(),
+        maxGasCostWei: maxGasCostWei?.toString(),
+        maxGasCost:
+          maxGasCostWei !== undefined ? toEth(maxGasCostWei) : undefined,
+        totalCostWei:
+          maxGasCostWei !== undefined
+            ? (valueWei + maxGasCostWei).toString()
+            : undefined,
+        totalCost:
+          maxGasCostWei !== undefined
+            ? toEth(valueWei + maxGasCostWei)
+            : undefined,
+      },
+    };
+  };
 
+  /**
+   * Signs and sends a registry transaction, firing the lifecycle callbacks and
+   * waiting for the requested confirmations
+   * @param tx The transaction to send
+   * @param options Lifecycle callbacks, confirmations and timeout
+   * @param itemID The item the transaction acts on
+   * @param requestIndex The request the transaction acts on, if known
+   * @returns The transaction outcome
+   */
+  private sendRegistryTransaction = async (
+    tx: TransactionRequest,
+    options: TransactionOptions,
+    itemID?: string,
+    requestIndex?: number
+  ): Promise<TransactionOutcome> => {
+    const { onSigned, onTransactionHash, onReceipt, timeout } = options;
+    const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+    let transactionHash: string | undefined;
+
+    let result: TransactionResult;
     try {
-      // First request accounts
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
+      result = await withDeadline(
+        this.getSigner().sendTransaction(tx, {
+          onSigned,
+          onTransactionHash: (hash) => {
+            transactionHash = hash;
+            onTransactionHash?.(hash);
+          },
+        }),
+        deadline,
+        () => new TransactionTimeoutError(timeout as number, transactionHash)
+      );
+    } catch (error) {
+      // Reverts of mined transactions carry the hash reported by the signer,
+      // other errors are classified by the calling method
+      const revert = toLightCurateError(error, "Transaction failed", {
+        transactionHash,
       });
+      throw revert instanceof ContractRevertError ? revert : error;
+    }
+
+    onReceipt?.(result.receipt);
+    await this.waitForConfirmations(result.receipt, options, deadline);
+
+    return this.toTransactionOutcome(result, itemID, requestIndex);
+  };
+
+  /**
+   * Waits for a transaction sent earlier, e.g. to re-attach to a pending
+   * transaction after a page reload using the hash from onTransactionHash
+   * @param transactionHash The hash of the transaction
+   * @param options Receipt and confirmation callbacks, confirmations and timeout
+   * @returns Promise resolving to the transaction outcome. The item ID and
+   * request index are taken from the registry events the transaction emitted.
+   */
+  waitForTransaction = async (
+    transactionHash: string,
+    options: Omit<TransactionOptions, "onSigned" | "onTransactionHash"> = {}
+  ): Promise<TransactionOutcome> => {
+    try {
+      const { onReceipt, timeout } = options;
+      const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+      const web3 = await this.getWeb3();
+
+      let receipt: TransactionReceipt | null = null;
+      for (;;) {
+        const rawReceipt =
+          await web3.eth.getTransactionReceipt(transactionHash);
+        if (rawReceipt) {
+          receipt = fromWeb3Receipt(rawReceipt);
+          break;
+        }
+        if (deadline !== undefined && Date.now() >= deadline) {
+          throw new TransactionTimeoutError(timeout as number, transactionHash);
+        }
+        await sleepUntil(TRANSACTION_POLL_INTERVAL, deadline);
+      }
+
+      if (!receipt.status) {
+        // The receipt is kept as the cause so callers can inspect the failed transaction
+        throw new ContractRevertError(undefined, {
+          transactionHash,
+          cause: receipt,
+        });
+      }
+
+      onReceipt?.(receipt);
+      await this.waitForConfirmations(receipt, options, deadline);
+
+      const events = await this.decodeRegistryEvents(receipt).catch(
+        (): RegistryEvent[] => []
+      );
+      let itemID: string | undefined;
+      let requestIndex: number | undefined;
+      for (const event of events) {
+        if ("_itemID" in event.returnValues) {
+          itemID = event.returnValues._itemID;
+          if (event.event === "RewardWithdrawn") {
+            requestIndex = Number(event.returnValues._request);
+          }
+          break;
+        }
+      }
+
+      return this.toTransactionOutcome(
+        { transactionHash: receipt.transactionHash, receipt },
+        itemID,
+        requestIndex
+      );
+    } catch (error: any) {
+      log.error("Error waiting for transaction:", error);
+      throw toLightCurateError(error, "Failed to wait for transaction");
+    }
+  };
+
+  /**
+   * Connects to the user's Ethereum wallet and ensures correct chain
+   * @returns Promise resolving to the connected account address
+   */
+  connectWallet = async (): Promise<string> => {
+    try {
+      // First request accounts
+      const account = await this.getSigner().getAddress();
 
       // Then ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      return accounts[0];
+      return account;
     } catch (error: any) {
-      console.error("Error connecting wallet:", error);
-      throw new Error(`Failed to connect wallet: ${error.message}`);
+      log.error("Error connecting wallet:", error);
+      throw toLightCurateError(error, "Failed to connect wallet");
     }
   };
 
@@ -118,54 +682,58 @@ export class LightCurateRegistry {
    * Ensures the wallet is connected to the correct chain
    */
   private ensureCorrectChain = async (): Promise<void> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error("MetaMask is not installed");
-    }
+    const signer = this.getSigner();
 
-    try {
-      // Get current chain ID
-      const currentChainId = await window.ethereum.request({
-        method: "eth_chainId",
-      });
+    // Get current chain ID
+    const currentChainIdNumber = await signer.getChainId();
 
-      // Convert hex chainId to number
-      const currentChainIdNumber = parseInt(currentChainId, 16);
+    // If we're not on the correct chain, try to switch
+    if (currentChainIdNumber === this.chainId) {
+      return;
+    }
 
-      // If we're not on the correct chain, try to switch
-      if (currentChainIdNumber !== this.chainId) {
-        const chainIdHex = `0x${this.chainId.toString(16)}`;
+    // Only wallets can be asked to switch; other signers are bound to their node
+    if (!signer.provider) {
+      throw new WrongChainError(this.chainId, currentChainIdNumber);
+    }
 
-        try {
-          await window.ethereum.request({
-            method: "wallet_switchEthereumChain",
-            params: [{ chainId: chainIdHex }],
-          });
-        } catch (switchError: any) {
-          // This error code indicates that the chain has not been added to MetaMask
-          if (switchError.code === 4902) {
-            await this.addChainToWallet();
-          } else {
-            throw switchError;
-          }
+    const chainIdHex = `0x${this.chainId.toString(16)}`;
+
+    try {
+      try {
+        await signer.provider.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: chainIdHex }],
+        });
+      } catch (switchError: any) {
+        // This error code indicates that the chain has not been added to MetaMask
+        if (switchError.code === 4902) {
+          await this.addChainToWallet(signer.provider);
+        } else {
+          throw switchError;
         }
       }
     } catch (error: any) {
-      console.error("Error ensuring correct chain:", error);
-      throw new Error(
-        `Please switch to ${this.getChainName()}: ${error.message}`
-      );
+      log.error("Error ensuring correct chain:", error);
+      const classified = toLightCurateError(error, "Failed to switch chain");
+      if (classified instanceof UserRejectedError) {
+        throw classified;
+      }
+      throw new WrongChainError(this.chainId, currentChainIdNumber, {
+        cause: error,
+      });
     }
   };
 
   /**
    * Adds the chain to the wallet if it doesn't exist
    */
-  private addChainToWallet = async (): Promise<void> => {
-    if (typeof window === "undefined" || !window.ethereum) return;
-
+  private addChainToWallet = async (
+    provider: EIP1193Provider
+  ): Promise<void> => {
     const chainParams = this.getChainParameters();
 
-    await window.ethereum.request({
+    await provider.request({
       method: "wallet_addEthereumChain",
       params: [chainParams],
     });
@@ -175,47 +743,22 @@ export class LightCurateRegistry {
    * Gets the chain parameters for adding to wallet
    */
   private getChainParameters = (): any => {
-    if (
-      this.chainId === LightCurateRegistry.SUPPORTED_CHAINS.ETHEREUM_MAINNET
-    ) {
-      return {
-        chainId: "0x1",
-        chainName: "Ethereum Mainnet",
-        nativeCurrency: {
-          name: "Ether",
-          symbol: "ETH",
-          decimals: 18,
-        },
-        rpcUrls: ["https://rpc.ankr.com/eth"],
-        blockExplorerUrls: ["https://etherscan.io"],
-      };
-    } else if (
-      this.chainId === LightCurateRegistry.SUPPORTED_CHAINS.GNOSIS_CHAIN
-    ) {
-      return {
-        chainId: "0x64",
-        chainName: "Gnosis Chain",
-        nativeCurrency: {
-          name: "xDai",
-          symbol: "xDAI",
-          decimals: 18,
-        },
-        rpcUrls: ["https://gnosis-pokt.nodies.app"],
-        blockExplorerUrls: ["https://gnosisscan.io"],
-      };
-    }
-
-    throw new Error("Unsupported chain ID");
+    const config = getChainConfig(this.chainId);
+
+    return {
+      chainId: `0x${config.chainId.toString(16)}`,
+      chainName: config.name,
+      nativeCurrency: config.nativeCurrency,
+      rpcUrls: config.rpcUrls,
+      blockExplorerUrls: config.explorerUrl ? [config.explorerUrl] : undefined,
+    };
   };
 
   /**
    * Gets the chain name based on chain ID
    */
   private getChainName = (): string => {
-    return this.chainId ===
-      LightCurateRegistry.SUPPORTED_CHAINS.ETHEREUM_MAINNET
-      ? "Ethereum Mainnet"
-      : "Gnosis Chain";
+    return getChainConfig(this.chainId).name;
   };
 
   /**
@@ -223,15 +766,20 @@ export class LightCurateRegistry {
    * @returns Promise resolving to the current account address or null
    */
   getCurrentAccount = async (): Promise<string | null> => {
-    if (typeof window === "undefined" || !window.ethereum) return null;
+    const provider = this.getEip1193Provider();
 
     try {
-      const accounts = await window.ethereum.request({
+      // Non-wallet signers always have their account available
+      if (!provider) {
+        return this.signerConfig ? await this.getSigner().getAddress() : null;
+      }
+
+      const accounts = await provider.request({
         method: "eth_accounts",
       });
       return accounts[0] || null;
     } catch (error) {
-      console.error("Error getting current account:", error);
+      log.error("Error getting current account:", error);
       return null;
     }
   };
@@ -256,8 +804,11 @@ export class LightCurateRegistry {
 
       return challengePeriodInDays;
     } catch (error) {
-      console.error("Error getting challenge period duration:", error);
-      throw new Error("Failed to retrieve challenge period duration");
+      log.error("Error getting challenge period duration:", error);
+      throw toLightCurateError(
+        error,
+        "Failed to retrieve challenge period duration"
+      );
     }
   };
 
@@ -268,7 +819,7 @@ export class LightCurateRegistry {
    */
   private getKlerosLiquidContract = async (
     arbitratorAddress: string
-  ): Promise<any> => {
+  ): Promise<KlerosLiquidContract> => {
     const web3 = await this.getWeb3();
 
     // Import the Kleros Liquid ABI
@@ -280,7 +831,71 @@ export class LightCurateRegistry {
     return new web3.eth.Contract(
       KLEROS_LIQUID_ABI as AbiItem[],
       arbitratorAddress
-    );
+    ) as unknown as KlerosLiquidContract;
+  };
+
+  /**
+   * Gets the registry's on-chain parameters (deposits, challenge period,
+   * stake multipliers, governor and arbitrator)
+   * @returns Promise resolving to the registry parameters
+   */
+  getRegistryParameters = async (): Promise<RegistryParameters> => {
+    try {
+      const contract = await this.getContract();
+
+      const [
+        submissionBaseDeposit,
+        removalBaseDeposit,
+        submissionChallengeBaseDeposit,
+        removalChallengeBaseDeposit,
+        challengePeriodDuration,
+        winnerStakeMultiplier,
+        loserStakeMultiplier,
+        sharedStakeMultiplier,
+        multiplierDivisor,
+        governor,
+        arbitrator,
+        arbitratorExtraData,
+        relayerContract,
+        metaEvidenceUpdates,
+      ] = await Promise.all([
+        contract.methods.submissionBaseDeposit().call(),
+        contract.methods.removalBaseDeposit().call(),
+        contract.methods.submissionChallengeBaseDeposit().call(),
+        contract.methods.removalChallengeBaseDeposit().call(),
+        contract.methods.challengePeriodDuration().call(),
+        contract.methods.winnerStakeMultiplier().call(),
+        contract.methods.loserStakeMultiplier().call(),
+        contract.methods.sharedStakeMultiplier().call(),
+        contract.methods.MULTIPLIER_DIVISOR().call(),
+        contract.methods.governor().call(),
+        contract.methods.arbitrator().call(),
+        contract.methods.arbitratorExtraData().call(),
+        contract.methods.relayerContract().call(),
+        contract.methods.metaEvidenceUpdates().call(),
+      ]);
+
+      return {
+        submissionBaseDepositWei: submissionBaseDeposit.toString(),
+        removalBaseDepositWei: removalBaseDeposit.toString(),
+        submissionChallengeBaseDepositWei:
+          submissionChallengeBaseDeposit.toString(),
+        removalChallengeBaseDepositWei: removalChallengeBaseDeposit.toString(),
+        challengePeriodDuration: Number(challengePeriodDuration),
+        winnerStakeMultiplier: Number(winnerStakeMultiplier),
+        loserStakeMultiplier: Number(loserStakeMultiplier),
+        sharedStakeMultiplier: Number(sharedStakeMultiplier),
+        multiplierDivisor: Number(multiplierDivisor),
+        governor,
+        arbitrator,
+        arbitratorExtraData,
+        relayerContract,
+        metaEvidenceUpdates: Number(metaEvidenceUpdates),
+      };
+    } catch (error: any) {
+      log.error("Error getting registry parameters:", error);
+      throw toLightCurateError(error, "Failed to get registry parameters");
+    }
   };
 
   /**
@@ -290,7 +905,7 @@ export class LightCurateRegistry {
   getArbitrationCost = async (): Promise<{
     arbitrationCost: string;
     arbitrationCostWei: string;
-    arbitrator: any;
+    arbitrator: KlerosLiquidContract;
   }> => {
     try {
       const web3 = await this.getWeb3();
@@ -302,8 +917,8 @@ export class LightCurateRegistry {
         .arbitratorExtraData()
         .call();
 
-      console.log("Arbitrator address:", arbitratorAddress);
-      console.log("Arbitrator extra data:", arbitratorExtraData);
+      log.debug("Arbitrator address:", arbitratorAddress);
+      log.debug("Arbitrator extra data:", arbitratorExtraData);
 
       // Create Kleros Liquid arbitrator contract instance
       if (!arbitratorAddress || typeof arbitratorAddress !== "string") {
@@ -334,8 +949,8 @@ export class LightCurateRegistry {
         arbitrator: klerosLiquidInstance,
       };
     } catch (error) {
-      console.error("Error getting arbitration cost:", error);
-      throw new Error("Failed to retrieve arbitration cost");
+      log.error("Error getting arbitration cost:", error);
+      throw toLightCurateError(error, "Failed to retrieve arbitration cost");
     }
   };
 
@@ -347,7 +962,13 @@ export class LightCurateRegistry {
    * @returns Promise resolving to deposit information
    */
   private calculateDepositAmount = async (
-    baseDepositMethod: string,
+    baseDepositMethod: keyof Pick<
+      LightGeneralizedTCRMethods,
+      | "submissionBaseDeposit"
+      | "submissionChallengeBaseDeposit"
+      | "removalBaseDeposit"
+      | "removalChallengeBaseDeposit"
+    >,
     baseDepositName: string
   ): Promise<DepositInfo> => {
     try {
@@ -378,7 +999,7 @@ export class LightCurateRegistry {
         "ether"
       );
 
-      console.log(`${baseDepositName} calculation breakdown:`, {
+      log.debug(`${baseDepositName} calculation breakdown:`, {
         baseDeposit: baseDepositEth,
         arbitrationCost,
         total: depositAmountEth,
@@ -395,9 +1016,10 @@ export class LightCurateRegistry {
         challengePeriodDays,
       };
     } catch (error) {
-      console.error(`Error getting ${baseDepositName} amount:`, error);
-      throw new Error(
-        `Failed to calculate required ${baseDepositName} amount: ${error instanceof Error ? error.message : "Unknown error"}`
+      log.error(`Error getting ${baseDepositName} amount:`, error);
+      throw toLightCurateError(
+        error,
+        `Failed to calculate required ${baseDepositName} amount`
       );
     }
   };
@@ -444,275 +1066,582 @@ export class LightCurateRegistry {
   };
 
   /**
-   * Submits an item to the registry
+   * Builds the addItem call for an item
    * @param ipfsPath The IPFS path of the item
-   * @returns Promise resolving to the transaction hash
+   * @returns The call, sent with the submission deposit
    */
-  submitToRegistry = async (ipfsPath: string): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
-    }
-
+  private submitToRegistryCall = async (
+    ipfsPath: string
+  ): Promise<RegistryCall> => {
     // Ensure ipfsPath starts with "/ipfs/"
     const formattedPath = ipfsPath.startsWith("/ipfs/")
       ? ipfsPath
       : `/ipfs/${ipfsPath}`;
 
+    const contract = await this.getContract();
+
+    // Get required deposit amount
+    const deposit = await this.getSubmissionDepositAmount();
+
+    return {
+      method: contract.methods.addItem(formattedPath),
+      value: deposit.depositInWei,
+      deposit,
+      itemID: computeItemID(formattedPath),
+    };
+  };
+
+  /**
+   * Submits an item to the registry
+   * @param ipfsPath The IPFS path of the item
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
+   */
+  submitToRegistry = async (
+    ipfsPath: string,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
     try {
       // Ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
-
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
-      const contract = await this.getContract();
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
 
-      // Get required deposit amount
-      const { depositInWei } = await this.getSubmissionDepositAmount();
+      const call = await this.submitToRegistryCall(ipfsPath);
 
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .addItem(formattedPath)
-        .estimateGas({
-          from,
-          value: depositInWei,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
+      // Submit transaction with the dynamic deposit amount
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error submitting to registry:", error);
 
-      // Calculate gas with 20% buffer and convert to string
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+      throw toLightCurateError(error, "Failed to submit to registry");
+    }
+  };
 
-      // Convert gasPrice to string
-      const gasPriceString = gasPrice.toString();
+  /**
+   * Previews submitToRegistry without sending anything
+   * @param ipfsPath The IPFS path of the item
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareSubmitToRegistry = async (
+    ipfsPath: string,
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.submitToRegistryCall(ipfsPath);
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing registry submission:", error);
+      throw toLightCurateError(error, "Failed to prepare registry submission");
+    }
+  };
 
-      // Submit transaction with the dynamic deposit amount
-      const txReceipt = await contract.methods.addItem(formattedPath).send({
-        from,
-        gas: gasWithBuffer,
-        gasPrice: gasPriceString,
-        value: depositInWei,
-      });
+  /**
+   * Gets the column definitions of the latest registration MetaEvidence
+   * @returns The `metadata.columns` array
+   */
+  private getRegistrationColumns = async (): Promise<MetaEvidenceColumn[]> => {
+    const { registration } = await this.getMetaEvidence();
+    return registration.document.metadata.columns;
+  };
 
-      return txReceipt.transactionHash;
-    } catch (error: any) {
-      console.error("Error submitting to registry:", error);
+  /**
+   * Builds the item document for the given values, validated against the
+   * columns of the latest registration MetaEvidence
+   * @param values Item values keyed by column label
+   * @returns The item document, ready to be uploaded to IPFS
+   * @throws ItemValidationError if any value does not match its column
+   */
+  buildItem = async (values: ItemValues): Promise<ItemDocument> => {
+    const columns = await this.getRegistrationColumns();
 
-      // Format error for user
-      let errorMessage = "Failed to submit to registry";
+    const errors = validateItemValues(columns, values);
+    if (errors.length > 0) {
+      throw new ItemValidationError(errors);
+    }
 
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
+    // Keep values in column order
+    const orderedValues: ItemValues = {};
+    columns.forEach((column) => {
+      if (values[column.label] !== undefined) {
+        orderedValues[column.label] = values[column.label];
       }
+    });
 
-      throw new Error(errorMessage);
-    }
+    return { columns, values: orderedValues };
   };
 
   /**
-   * Removes an item from the registry
-   * @param itemID The ID of the item to remove
-   * @param evidence Optional evidence IPFS path
-   * @returns Promise resolving to the transaction hash
+   * Finds existing items that duplicate the given values: items whose
+   * identifier columns all hold the same values and, when the item's IPFS
+   * path is known, the item with the same item ID. Identifiers are looked up
+   * through the subgraph, which only indexes the first five columns.
+   * @param values Item values keyed by column label
+   * @param options ipfsPath of the uploaded item to also match on item ID
+   * @returns Promise resolving to the matching items and their statuses
+   * @throws ItemValidationError if any value does not match its column
    */
-  removeItem = async (
-    itemID: string,
-    evidence: string = ""
-  ): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
+  findDuplicates = async (
+    values: ItemValues,
+    options: { ipfsPath?: string; customSubgraphUrl?: string } = {}
+  ): Promise<DuplicateItem[]> => {
+    const { ipfsPath, customSubgraphUrl } = options;
+
+    const columns = await this.getRegistrationColumns();
+    const errors = validateItemValues(columns, values);
+    if (errors.length > 0) {
+      throw new ItemValidationError(errors);
     }
 
+    const duplicates = new Map<string, DuplicateItem>();
+
     try {
-      // Ensure we're on the correct chain
-      await this.ensureCorrectChain();
+      const identifierColumns = columns.filter((column) => column.isIdentifier);
+
+      // The subgraph indexes the first five columns as key0..key4, by their
+      // position in the MetaEvidence whether they are identifiers or not
+      const indexedIdentifiers = columns
+        .slice(0, 5)
+        .map((column) =>
+          column.isIdentifier ? String(values[column.label]) : undefined
+        );
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
+      if (indexedIdentifiers.some((value) => value !== undefined)) {
+        const candidates = await fetchItemsByIdentifiers(
+          this.contractAddress,
+          indexedIdentifiers,
+          this.chainId,
+          { customSubgraphUrl }
+        );
 
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
-      const contract = await this.getContract();
+        candidates
+          .filter((item) =>
+            identifierColumns.every((column) => {
+              const prop = item.metadata?.props.find(
+                (p) => p.label === column.label
+              );
+              return (
+                prop !== undefined &&
+                normalizeIdentifier(column, prop.value) ===
+                  normalizeIdentifier(column, values[column.label])
+              );
+            })
+          )
+          .forEach((item) => {
+            duplicates.set(item.itemID.toLowerCase(), {
+              itemID: item.itemID,
+              status: item.status as LItemStatus,
+              matchedOn: ["identifiers"],
+              item,
+            });
+          });
+      }
 
-      // Get required deposit amount
-      const { depositInWei } = await this.getRemovalDepositAmount();
-
-      // Format evidence URL - ensure it starts with "/ipfs/"
-      const formattedEvidence = evidence
-        ? evidence.startsWith("/ipfs/")
-          ? evidence
-          : `/ipfs/${evidence}`
-        : "";
-
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .removeItem(itemID, formattedEvidence)
-        .estimateGas({
-          from,
-          value: depositInWei,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
+      if (ipfsPath) {
+        const formattedPath = ipfsPath.startsWith("/ipfs/")
+          ? ipfsPath
+          : `/ipfs/${ipfsPath}`;
+        const itemID = computeItemID(formattedPath);
+
+        const contract = await this.getContract();
+        const { status } = await contract.methods.getItemInfo(itemID).call();
+        const existing = duplicates.get(itemID.toLowerCase());
+
+        if (existing) {
+          existing.matchedOn.push("itemID");
+        } else if (Number(status) !== ItemStatus.Absent) {
+          duplicates.set(itemID.toLowerCase(), {
+            itemID,
+            status: ItemStatus[Number(status)] as LItemStatus,
+            matchedOn: ["itemID"],
+          });
+        }
+      }
+    } catch (error: any) {
+      log.error("Error checking for duplicates:", error);
+      throw toLightCurateError(error, "Failed to check for duplicates");
+    }
 
-      // Calculate gas with 20% buffer and convert to string
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+    return Array.from(duplicates.values());
+  };
 
-      // Convert gasPrice to string
-      const gasPriceString = gasPrice.toString();
+  /**
+   * Validates, uploads and submits an item in one call. Validation happens
+   * before anything is uploaded or sent.
+   * @param values Item values keyed by column label
+   * @param options rejectDuplicates to refuse submitting an item whose
+   * identifiers or data match an item that is registered or pending
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events) plus the item's IPFS path
+   * @throws ItemValidationError if any value does not match its column
+   * @throws DuplicateItemError if rejectDuplicates is set and a duplicate exists
+   */
+  submitItem = async (
+    values: ItemValues,
+    options: { rejectDuplicates?: boolean; customSubgraphUrl?: string } = {},
+    txOptions: TransactionOptions = {}
+  ): Promise<ItemSubmission> => {
+    const { rejectDuplicates = false, customSubgraphUrl } = options;
+
+    const item = await this.buildItem(values);
+
+    const uploadedPath = await uploadJSONToIPFS(item);
+    const ipfsPath = uploadedPath.startsWith("/ipfs/")
+      ? uploadedPath
+      : `/ipfs/${uploadedPath}`;
+
+    if (rejectDuplicates) {
+      // Absent items were removed or rejected and may be submitted again
+      const duplicates = (
+        await this.findDuplicates(values, { ipfsPath, customSubgraphUrl })
+      ).filter((duplicate) => duplicate.status !== "Absent");
+      if (duplicates.length > 0) {
+        throw new DuplicateItemError(duplicates);
+      }
+    }
+
+    const outcome = await this.submitToRegistry(ipfsPath, txOptions);
+
+    return { ...outcome, ipfsPath };
+  };
+
+  /**
+   * Builds the removeItem call for an item
+   * @param itemID The ID of the item to remove
+   * @param evidence Optional evidence IPFS path, or evidence to upload
+   * @returns The call, sent with the removal deposit
+   */
+  private removeItemCall = async (
+    itemID: string,
+    evidence: string | EvidenceInput
+  ): Promise<RegistryCall> => {
+    const contract = await this.getContract();
+
+    // Get required deposit amount
+    const deposit = await this.getRemovalDepositAmount();
+
+    // Upload structured evidence, then ensure the path starts with "/ipfs/"
+    const evidencePath = await toEvidencePath(evidence);
+    const formattedEvidence = evidencePath
+      ? evidencePath.startsWith("/ipfs/")
+        ? evidencePath
+        : `/ipfs/${evidencePath}`
+      : "";
+
+    return {
+      method: contract.methods.removeItem(itemID, formattedEvidence),
+      value: deposit.depositInWei,
+      deposit,
+      itemID,
+    };
+  };
+
+  /**
+   * Removes an item from the registry
+   * @param itemID The ID of the item to remove
+   * @param evidence Optional evidence IPFS path, or the evidence title,
+   * description and file to upload with uploadEvidence
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
+   */
+  removeItem = async (
+    itemID: string,
+    evidence: string | EvidenceInput = "",
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
+    try {
+      // Ensure we're on the correct chain
+      await this.ensureCorrectChain();
+
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
+
+      const call = await this.removeItemCall(itemID, evidence);
 
       // Submit transaction with the dynamic deposit amount
-      const txReceipt = await contract.methods
-        .removeItem(itemID, formattedEvidence)
-        .send({
-          from,
-          gas: gasWithBuffer,
-          gasPrice: gasPriceString,
-          value: depositInWei,
-        });
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error removing item from registry:", error);
+
+      throw toLightCurateError(error, "Failed to remove item from registry");
+    }
+  };
 
-      return txReceipt.transactionHash;
+  /**
+   * Previews removeItem without sending anything
+   * @param itemID The ID of the item to remove
+   * @param evidence Optional evidence IPFS path, or the evidence title,
+   * description and file to upload with uploadEvidence (uploaded while
+   * preparing, so the returned transaction can be sent as is)
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareRemoveItem = async (
+    itemID: string,
+    evidence: string | EvidenceInput = "",
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.removeItemCall(itemID, evidence);
+      return await this.previewCall(call, options);
     } catch (error: any) {
-      console.error("Error removing item from registry:", error);
+      log.error("Error preparing item removal:", error);
+      throw toLightCurateError(error, "Failed to prepare item removal");
+    }
+  };
 
-      // Format error for user
-      let errorMessage = "Failed to remove item from registry";
+  /**
+   * Builds the challengeRequest call for an item with a pending request
+   * @param itemID The ID of the item
+   * @param evidence Optional evidence IPFS path, or evidence to upload
+   * @returns The call, sent with the challenge deposit matching the request type
+   */
+  private challengeRequestCall = async (
+    itemID: string,
+    evidence: string | EvidenceInput
+  ): Promise<RegistryCall> => {
+    const contract = await this.getContract();
 
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
-      }
+    // Get the item info to determine its status
+    const itemResult: ItemInfo = await contract.methods.items(itemID).call();
+
+    if (!itemResult) {
+      throw new Error("Failed to retrieve item information");
+    }
 
-      throw new Error(errorMessage);
+    // Convert status to number and validate
+    const itemStatus = Number(itemResult.status);
+
+    if (isNaN(itemStatus)) {
+      throw new Error("Failed to retrieve valid item status");
     }
+
+    // Use the enum for clearer status checks
+    if (
+      itemStatus !== ItemStatus.RegistrationRequested &&
+      itemStatus !== ItemStatus.ClearingRequested
+    ) {
+      throw new NotChallengeableError(itemID, itemStatus);
+    }
+
+    // Determine which deposit to use based on item status
+    let deposit: DepositInfo;
+    if (itemStatus === ItemStatus.RegistrationRequested) {
+      deposit = await this.getSubmissionChallengeDepositAmount();
+    } else {
+      deposit = await this.getRemovalChallengeDepositAmount();
+    }
+
+    // Upload structured evidence, then ensure the path starts with "/ipfs/"
+    const evidencePath = await toEvidencePath(evidence);
+    const formattedEvidence = evidencePath
+      ? evidencePath.startsWith("/ipfs/")
+        ? evidencePath
+        : `/ipfs/${evidencePath}`
+      : "";
+
+    return {
+      method: contract.methods.challengeRequest(itemID, formattedEvidence),
+      value: deposit.depositInWei,
+      deposit,
+      itemID,
+    };
   };
 
   /**
    * Challenges a request
    * @param itemID The ID of the item
-   * @param evidence Optional evidence IPFS path
-   * @returns Promise resolving to the transaction hash
+   * @param evidence Optional evidence IPFS path, or the evidence title,
+   * description and file to upload with uploadEvidence
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
    */
   challengeRequest = async (
     itemID: string,
-    evidence: string = ""
-  ): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
-    }
-
+    evidence: string | EvidenceInput = "",
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
     try {
       // Ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
+
+      const call = await this.challengeRequestCall(itemID, evidence);
+
+      // Submit challenge transaction
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error challenging request:", error);
+
+      throw toLightCurateError(error, "Failed to challenge request");
+    }
+  };
+
+  /**
+   * Previews challengeRequest without sending anything
+   * @param itemID The ID of the item
+   * @param evidence Optional evidence IPFS path, or the evidence title,
+   * description and file to upload with uploadEvidence (uploaded while
+   * preparing, so the returned transaction can be sent as is)
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareChallengeRequest = async (
+    itemID: string,
+    evidence: string | EvidenceInput = "",
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.challengeRequestCall(itemID, evidence);
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing challenge:", error);
+      throw toLightCurateError(error, "Failed to prepare challenge");
+    }
+  };
 
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
+  /**
+   * Checks whether the latest request of an item can be executed
+   * (unchallenged and past its challenge period)
+   * @param itemID The ID of the item
+   * @returns Promise resolving to the execution status
+   */
+  getExecutionStatus = async (
+    itemID: string
+  ): Promise<RequestExecutionStatus> => {
+    try {
+      const web3 = await this.getWeb3();
       const contract = await this.getContract();
 
-      // Get the item info to determine its status
-      const itemResult = (await contract.methods.items(itemID).call()) as {
-        status: string | number;
+      const itemInfo = await contract.methods.getItemInfo(itemID).call();
+      const status = Number(itemInfo.status) as ItemStatus;
+      const numberOfRequests = Number(itemInfo.numberOfRequests);
+
+      const challengePeriodDuration = Number(
+        await contract.methods.challengePeriodDuration().call()
+      );
+
+      const baseStatus = {
+        canExecute: false,
+        status,
+        requestID: numberOfRequests - 1,
+        submissionTime: 0,
+        challengePeriodEnd: 0,
+        secondsRemaining: 0,
       };
 
-      if (!itemResult) {
-        throw new Error("Failed to retrieve item information");
+      if (
+        status !== ItemStatus.RegistrationRequested &&
+        status !== ItemStatus.ClearingRequested
+      ) {
+        return { ...baseStatus, reason: "Item has no pending request" };
       }
 
-      // Convert status to number and validate
-      const itemStatus = Number(itemResult.status);
+      const requestInfo = await contract.methods
+        .getRequestInfo(itemID, numberOfRequests - 1)
+        .call();
+      const submissionTime = Number(requestInfo.submissionTime);
+      const challengePeriodEnd = submissionTime + challengePeriodDuration;
+
+      // Use the chain's clock, which is what the contract checks against
+      const latestBlock = await web3.eth.getBlock("latest");
+      const now = Number(latestBlock.timestamp);
+      const secondsRemaining = Math.max(0, challengePeriodEnd - now);
+
+      const result = {
+        ...baseStatus,
+        submissionTime,
+        challengePeriodEnd,
+        secondsRemaining,
+      };
 
-      if (isNaN(itemStatus)) {
-        throw new Error("Failed to retrieve valid item status");
+      if (requestInfo.disputed) {
+        return { ...result, reason: "Request is disputed" };
       }
 
-      // Use the enum for clearer status checks
-      if (
-        itemStatus !== ItemStatus.RegistrationRequested &&
-        itemStatus !== ItemStatus.ClearingRequested
-      ) {
-        throw new Error("Item not in a challengeable state");
+      // The contract requires strictly more than challengePeriodDuration to have passed
+      if (now - submissionTime <= challengePeriodDuration) {
+        return {
+          ...result,
+          reason: `Challenge period has not ended yet (${secondsRemaining} seconds remaining)`,
+        };
       }
 
-      // Determine which deposit to use based on item status
-      let depositInfo;
-      if (itemStatus === ItemStatus.RegistrationRequested) {
-        depositInfo = await this.getSubmissionChallengeDepositAmount();
-      } else {
-        depositInfo = await this.getRemovalChallengeDepositAmount();
-      }
+      return { ...result, canExecute: true };
+    } catch (error: any) {
+      log.error("Error getting execution status:", error);
+      throw toLightCurateError(error, "Failed to get execution status");
+    }
+  };
 
-      // Format evidence URL
-      const formattedEvidence = evidence
-        ? evidence.startsWith("/ipfs/")
-          ? evidence
-          : `/ipfs/${evidence}`
-        : "";
-
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .challengeRequest(itemID, formattedEvidence)
-        .estimateGas({
-          from,
-          value: depositInfo.depositInWei,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
+  /**
+   * Builds the executeRequest call, checking the request can be executed
+   * @param itemID The ID of the item
+   * @returns The call
+   */
+  private executeRequestCall = async (
+    itemID: string
+  ): Promise<RegistryCall> => {
+    const contract = await this.getContract();
+
+    // Check the request can be executed before spending gas
+    const executionStatus = await this.getExecutionStatus(itemID);
+    if (!executionStatus.canExecute) {
+      throw new NotExecutableError(itemID, executionStatus.reason);
+    }
 
-      // Calculate gas with 20% buffer
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+    return { method: contract.methods.executeRequest(itemID), itemID };
+  };
 
-      // Submit challenge transaction
-      const txReceipt = await contract.methods
-        .challengeRequest(itemID, formattedEvidence)
-        .send({
-          from,
-          gas: gasWithBuffer,
-          gasPrice: gasPrice.toString(),
-          value: depositInfo.depositInWei,
-        });
+  /**
+   * Executes an unchallenged request once its challenge period has passed,
+   * registering or removing the item and reimbursing the requester
+   * @param itemID The ID of the item
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
+   */
+  executeRequest = async (
+    itemID: string,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
+    try {
+      // Ensure we're on the correct chain
+      await this.ensureCorrectChain();
 
-      return txReceipt.transactionHash;
-    } catch (error: any) {
-      console.error("Error challenging request:", error);
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
 
-      // Format error for user
-      let errorMessage = "Failed to challenge request";
+      const call = await this.executeRequestCall(itemID);
 
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
-      }
+      // Submit execution transaction
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error executing request:", error);
 
-      throw new Error(errorMessage);
+      throw toLightCurateError(error, "Failed to execute request");
+    }
+  };
+
+  /**
+   * Previews executeRequest without sending anything
+   * @param itemID The ID of the item
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareExecuteRequest = async (
+    itemID: string,
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.executeRequestCall(itemID);
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing request execution:", error);
+      throw toLightCurateError(error, "Failed to prepare request execution");
     }
   };
 
@@ -729,30 +1658,14 @@ export class LightCurateRegistry {
   /**
    * Handles Web3 errors
    * @param error The error object
-   * @returns Formatted error message
+   * @returns Formatted error message. Branch on the error classes (UserRejectedError,
+   * InsufficientFundsError, ContractRevertError, ...) instead of parsing it.
    */
   handleWeb3Error = (error: any): string => {
-    let message = "An unknown error occurred";
-
     if (typeof error === "string") {
-      message = error;
-    } else if (error?.message) {
-      message = error.message.replace("MetaMask Tx Signature: ", "");
-
-      // Clean up common Web3 errors
-      if (message.includes("User denied")) {
-        message = "Transaction was rejected";
-      } else if (message.includes("insufficient funds")) {
-        message = "Insufficient funds for transaction";
-      }
+      return error;
     }
-
-    // Limit message length
-    if (message.length > 100) {
-      message = message.substring(0, 100) + "...";
-    }
-
-    return message;
+    return toLightCurateError(error, "An unknown error occurred").message;
   };
 
   /**
@@ -764,10 +1677,12 @@ export class LightCurateRegistry {
       await this.ensureCorrectChain();
       return true;
     } catch (error: any) {
-      console.error("Error switching network:", error);
-      if (typeof toast !== "undefined") {
-        toast.error(`Please switch to ${this.getChainName()}`);
-      }
+      log.error("Error switching network:", error);
+      notify({
+        level: "error",
+        message: `Please switch to ${this.getChainName()}`,
+        error,
+      });
       return false;
     }
   };
@@ -780,81 +1695,124 @@ export class LightCurateRegistry {
     return this.chainId;
   };
 
+  /**
+   * Builds the submitEvidence call
+   * @param itemID The ID of the item which the evidence is related to
+   * @param evidenceURI A link to an evidence using its IPFS URI, or evidence to upload
+   * @returns The call
+   */
+  private submitEvidenceCall = async (
+    itemID: string,
+    evidenceURI: string | EvidenceInput
+  ): Promise<RegistryCall> => {
+    const contract = await this.getContract();
+
+    // Upload structured evidence, then ensure the path starts with "/ipfs/"
+    const evidencePath = await toEvidencePath(evidenceURI);
+    const formattedEvidence = evidencePath
+      ? evidencePath.startsWith("/ipfs/")
+        ? evidencePath
+        : `/ipfs/${evidencePath}`
+      : "";
+
+    return {
+      method: contract.methods.submitEvidence(itemID, formattedEvidence),
+      itemID,
+    };
+  };
+
   /**
    * Submit evidence for an item in the registry
    * @param itemID The ID of the item which the evidence is related to
-   * @param evidenceURI A link to an evidence using its IPFS URI
-   * @returns Transaction hash of the evidence submission
+   * @param evidenceURI A link to an evidence using its IPFS URI, or the
+   * evidence title, description and file to upload with uploadEvidence
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
    */
   submitEvidence = async (
     itemID: string,
-    evidenceURI: string
-  ): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
-    }
-
+    evidenceURI: string | EvidenceInput,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
     try {
       // Ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
 
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
-      const contract = await this.getContract();
-
-      // Format evidence URI - ensure it starts with "/ipfs/"
-      const formattedEvidence = evidenceURI
-        ? evidenceURI.startsWith("/ipfs/")
-          ? evidenceURI
-          : `/ipfs/${evidenceURI}`
-        : "";
-
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .submitEvidence(itemID, formattedEvidence)
-        .estimateGas({
-          from,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
-
-      // Calculate gas with 20% buffer
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+      const call = await this.submitEvidenceCall(itemID, evidenceURI);
 
       // Submit transaction
-      const txReceipt = await contract.methods
-        .submitEvidence(itemID, formattedEvidence)
-        .send({
-          from,
-          gas: gasWithBuffer,
-          gasPrice: gasPrice.toString(),
-        });
-
-      return txReceipt.transactionHash;
+      return await this.sendRegistryCall(call, from, txOptions);
     } catch (error: any) {
-      console.error("Error submitting evidence:", error);
+      log.error("Error submitting evidence:", error);
 
-      // Format error for user
-      let errorMessage = "Failed to submit evidence";
+      throw toLightCurateError(error, "Failed to submit evidence");
+    }
+  };
 
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
-      }
+  /**
+   * Previews submitEvidence without sending anything
+   * @param itemID The ID of the item which the evidence is related to
+   * @param evidenceURI A link to an evidence using its IPFS URI, or the
+   * evidence title, description and file to upload with uploadEvidence
+   * (uploaded while preparing, so the returned transaction can be sent as is)
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareSubmitEvidence = async (
+    itemID: string,
+    evidenceURI: string | EvidenceInput,
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.submitEvidenceCall(itemID, evidenceURI);
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing evidence submission:", error);
+      throw toLightCurateError(error, "Failed to prepare evidence submission");
+    }
+  };
 
-      throw new Error(errorMessage);
+  /**
+   * Reads the registry's stake multipliers and their divisor in one batch.
+   * The read is cached for the lifetime of the instance, concurrent callers
+   * share the pending read and a failed read is retried on the next call.
+   * The governor can change the multipliers, create a new instance to pick
+   * up the new values.
+   * @returns Promise resolving to the winner, loser and shared stake multipliers
+   */
+  private getStakeMultipliers = (): Promise<StakeMultipliers> => {
+    if (!this.stakeMultipliers) {
+      this.stakeMultipliers = (async () => {
+        const contract = await this.getContract();
+        const [
+          winnerStakeMultiplier,
+          loserStakeMultiplier,
+          sharedStakeMultiplier,
+          multiplierDivisor,
+        ] = await Promise.all([
+          contract.methods.winnerStakeMultiplier().call(),
+          contract.methods.loserStakeMultiplier().call(),
+          contract.methods.sharedStakeMultiplier().call(),
+          contract.methods.MULTIPLIER_DIVISOR().call(),
+        ]);
+
+        return {
+          winnerStakeMultiplier: BigInt(winnerStakeMultiplier),
+          loserStakeMultiplier: BigInt(loserStakeMultiplier),
+          sharedStakeMultiplier: BigInt(sharedStakeMultiplier),
+          multiplierDivisor: BigInt(multiplierDivisor),
+        };
+      })();
+
+      // Drop a failed read so the next call tries again
+      this.stakeMultipliers.catch(() => {
+        this.stakeMultipliers = null;
+      });
     }
+    return this.stakeMultipliers;
   };
 
   /**
@@ -873,33 +1831,31 @@ export class LightCurateRegistry {
     challengerAppealFeeWei: string;
     currentRuling: number;
   }> => {
-    let web3;
-    let contract;
-    let disputeData;
-    let arbitratorAddress;
-    let disputeID;
-    let arbitratorExtraData;
-    let currentRuling;
-    let klerosLiquidInstance;
-    let arbitrationCostWei;
+    let web3: Web3;
+    let contract: LightGeneralizedTCRContract;
+    let disputeData: RequestInfo;
+    let arbitratorAddress: string;
+    let disputeID: bigint;
+    let arbitratorExtraData: string;
+    let currentRuling: number;
+    let klerosLiquidInstance: KlerosLiquidContract;
+    let arbitrationCostWei: bigint;
 
     // Step 1: Initialize web3 and contract instances
     try {
-      console.log(
+      log.debug(
         `Getting appeal cost for itemID: ${itemID}, requestID: ${requestID}`
       );
       web3 = await this.getWeb3();
       contract = await this.getContract();
     } catch (error) {
-      console.error("Error initializing web3 or contract:", error);
-      throw new Error(
-        `Failed to initialize web3 or contract: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      log.error("Error initializing web3 or contract:", error);
+      throw toLightCurateError(error, "Failed to initialize web3 or contract");
     }
 
     // Step 2: Get dispute data
     try {
-      console.log(
+      log.debug(
         `Fetching dispute data for itemID: ${itemID}, requestID: ${requestID}`
       );
       disputeData = await contract.methods
@@ -907,140 +1863,94 @@ export class LightCurateRegistry {
         .call();
 
       if (!disputeData.disputed) {
-        console.error("Item is not disputed", disputeData);
-        throw new Error("Item is not disputed, no appeal cost available");
+        log.error("Item is not disputed", disputeData);
+        throw new NotDisputedError(itemID, requestID);
       }
 
       // Field names corrected to match the ABI
       arbitratorAddress = disputeData.requestArbitrator;
       disputeID = disputeData.disputeID;
       arbitratorExtraData = disputeData.requestArbitratorExtraData;
-      currentRuling = parseInt(disputeData.ruling);
 
-      console.log("Dispute data:", {
+      log.debug("Dispute data:", {
         arbitratorAddress,
         disputeID,
         arbitratorExtraData,
-        numberOfRounds: parseInt(disputeData.numberOfRounds),
-        currentRuling,
+        numberOfRounds: Number(disputeData.numberOfRounds),
       });
     } catch (error) {
-      console.error("Error getting dispute data:", error);
-      throw new Error(
-        `Failed to get dispute data: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      log.error("Error getting dispute data:", error);
+      throw toLightCurateError(error, "Failed to get dispute data");
     }
 
     // Step 3: Get Kleros Liquid contract instance
     try {
-      console.log(
+      log.debug(
         `Getting Kleros Liquid contract instance for arbitrator: ${arbitratorAddress}`
       );
       klerosLiquidInstance =
         await this.getKlerosLiquidContract(arbitratorAddress);
     } catch (error) {
-      console.error("Error getting Kleros Liquid contract:", error);
-      throw new Error(
-        `Failed to get Kleros Liquid contract: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      log.error("Error getting Kleros Liquid contract:", error);
+      throw toLightCurateError(error, "Failed to get Kleros Liquid contract");
     }
 
     // Step 4: Get appeal cost from arbitrator
     try {
-      console.log(
+      log.debug(
         `Getting appeal cost for disputeID: ${disputeID} and ${arbitratorExtraData}`
       );
       arbitrationCostWei = await klerosLiquidInstance.methods
         .appealCost(disputeID, arbitratorExtraData)
         .call();
+      // The request only stores the final ruling, the winner and loser of an
+      // appeal round come from the arbitrator's current ruling
+      currentRuling = Number(
+        await klerosLiquidInstance.methods.currentRuling(disputeID).call()
+      );
 
-      console.log(`Appeal base cost: ${arbitrationCostWei} wei`);
+      log.debug(
+        `Appeal base cost: ${arbitrationCostWei} wei, current ruling: ${currentRuling}`
+      );
     } catch (error) {
-      console.error("Error getting appeal cost from arbitrator:", error);
-      throw new Error(
-        `Failed to get appeal cost from arbitrator: ${error instanceof Error ? error.message : "Unknown error"}`
+      log.error("Error getting appeal cost from arbitrator:", error);
+      throw toLightCurateError(
+        error,
+        "Failed to get appeal cost from arbitrator"
       );
     }
 
     // Step 5: Get multipliers and calculate fees
-    let loserStakeMultiplier;
-    let winnerStakeMultiplier;
-    let sharedStakeMultiplier;
-    let requesterAppealFeeWei;
-    let challengerAppealFeeWei;
+    let requesterAppealFeeWei: string;
+    let challengerAppealFeeWei: string;
 
     try {
-      console.log("Getting stake multipliers");
-      loserStakeMultiplier = await contract.methods
-        .loserStakeMultiplier()
-        .call();
-      winnerStakeMultiplier = await contract.methods
-        .winnerStakeMultiplier()
-        .call();
-      sharedStakeMultiplier = await contract.methods
-        .sharedStakeMultiplier()
-        .call();
+      log.debug("Getting stake multipliers");
+      const multipliers = await this.getStakeMultipliers();
 
-      console.log("Stake multipliers:", {
-        loserStakeMultiplier,
-        winnerStakeMultiplier,
-        sharedStakeMultiplier,
-      });
+      log.debug("Stake multipliers:", multipliers);
 
-      const MULTIPLIER_DIVISOR = 10000; // 100% is 10000 in the contract
-
-      // Convert to BigInt for safe math operations with large numbers
-      const arbitrationCost = BigInt(arbitrationCostWei);
-
-      // Calculate appeal fees based on ruling
-      if (currentRuling === 0) {
-        // No ruling, use shared stake multiplier for both parties
-        const sharedMultiplier = BigInt(sharedStakeMultiplier);
-        const stake =
-          (arbitrationCost * sharedMultiplier) / BigInt(MULTIPLIER_DIVISOR);
-
-        requesterAppealFeeWei = (arbitrationCost + stake).toString();
-        challengerAppealFeeWei = (arbitrationCost + stake).toString();
-      } else if (currentRuling === 1) {
-        // Requester is winning, apply loser multiplier to challenger and winner to requester
-        const winnerMultiplier = BigInt(winnerStakeMultiplier);
-        const loserMultiplier = BigInt(loserStakeMultiplier);
-
-        const requesterStake =
-          (arbitrationCost * winnerMultiplier) / BigInt(MULTIPLIER_DIVISOR);
-        const challengerStake =
-          (arbitrationCost * loserMultiplier) / BigInt(MULTIPLIER_DIVISOR);
-
-        requesterAppealFeeWei = (arbitrationCost + requesterStake).toString();
-        challengerAppealFeeWei = (arbitrationCost + challengerStake).toString();
-      } else if (currentRuling === 2) {
-        // Challenger is winning, apply loser multiplier to requester and winner to challenger
-        const winnerMultiplier = BigInt(winnerStakeMultiplier);
-        const loserMultiplier = BigInt(loserStakeMultiplier);
-
-        const requesterStake =
-          (arbitrationCost * loserMultiplier) / BigInt(MULTIPLIER_DIVISOR);
-        const challengerStake =
-          (arbitrationCost * winnerMultiplier) / BigInt(MULTIPLIER_DIVISOR);
-
-        requesterAppealFeeWei = (arbitrationCost + requesterStake).toString();
-        challengerAppealFeeWei = (arbitrationCost + challengerStake).toString();
-      }
+      const fees = calculateAppealFees({
+        ...multipliers,
+        appealCost: BigInt(arbitrationCostWei),
+        currentRuling,
+      });
+      requesterAppealFeeWei = fees.requesterAppealFee.toString();
+      challengerAppealFeeWei = fees.challengerAppealFee.toString();
 
-      console.log("Calculated appeal fees:", {
+      log.debug("Calculated appeal fees:", {
         requesterAppealFeeWei,
         challengerAppealFeeWei,
       });
     } catch (error) {
-      console.error("Error calculating appeal fees:", error);
-      throw new Error(
-        `Failed to calculate appeal fees: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      log.error("Error calculating appeal fees:", error);
+      throw toLightCurateError(error, "Failed to calculate appeal fees");
     }
 
     // Step 6: Convert Wei to ETH and return results
     try {
-      console.log("Converting Wei to ETH");
+      log.debug("Converting Wei to ETH");
+
       const requesterAppealFee = web3.utils.fromWei(
         requesterAppealFeeWei,
         "ether"
@@ -1050,11 +1960,7 @@ export class LightCurateRegistry {
         "ether"
       );
 
-      // Ensure these variables are never undefined
-      requesterAppealFeeWei = requesterAppealFeeWei || "0";
-      challengerAppealFeeWei = challengerAppealFeeWei || "0";
-
-      console.log("Final appeal costs:", {
+      log.debug("Final appeal costs:", {
         requesterAppealFee,
         challengerAppealFee,
         currentRuling,
@@ -1068,94 +1974,51 @@ export class LightCurateRegistry {
         currentRuling,
       };
     } catch (error) {
-      console.error("Error converting and returning results:", error);
-      throw new Error(
-        `Failed to convert or return results: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
+      log.error("Error converting and returning results:", error);
+      throw toLightCurateError(error, "Failed to convert or return results");
     }
   };
 
   /**
-   * Contribute to a side in a dispute
+   * Contribute to a side in a dispute. The contract only accepts contributions
+   * through fundAppeal, which always targets the item's latest request. Like
+   * fundAppeal, the amount is capped at what the side still needs and the side's
+   * funding window is checked before sending (AppealWindowClosedError).
    * @param itemID The ID of the item
-   * @param requestID The ID of the request (usually 0 for new items)
+   * @param requestID The ID of the request the funding status is read for (usually 0 for new items)
    * @param side The side to contribute to (1 = Requester, 2 = Challenger)
    * @param amount Amount to contribute in ETH
-   * @returns Transaction hash of the contribution
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
    */
   contribute = async (
     itemID: string,
     requestID: number = 0,
     side: 1 | 2,
-    amount: string
-  ): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
-    }
-
+    amount: string,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
     try {
       // Ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
-
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
-      const contract = await this.getContract();
-
-      // Convert ETH amount to Wei
-      const amountWei = web3.utils.toWei(amount, "ether");
-
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .contribute(itemID, requestID, side)
-        .estimateGas({
-          from,
-          value: amountWei,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
 
-      // Calculate gas with 20% buffer
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+      const call = await this.fundAppealCall(itemID, requestID, side, amount);
 
       // Submit contribution transaction
-      const txReceipt = await contract.methods
-        .contribute(itemID, requestID, side)
-        .send({
-          from,
-          gas: gasWithBuffer,
-          gasPrice: gasPrice.toString(),
-          value: amountWei,
-        });
-
-      return txReceipt.transactionHash;
+      return await this.sendRegistryCall(call, from, txOptions);
     } catch (error: any) {
-      console.error("Error contributing to dispute:", error);
+      log.error("Error contributing to dispute:", error);
 
-      // Format error for user
-      let errorMessage = "Failed to contribute to dispute";
-
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
-      }
-
-      throw new Error(errorMessage);
+      throw toLightCurateError(error, "Failed to contribute to dispute");
     }
   };
 
   /**
-   * Gets the current appeal funding status
+   * Gets the current appeal funding status, including the arbitrator's appeal
+   * period and each side's funding deadline (the loser only has the first half)
    * @param itemID The ID of the item
    * @param requestID The ID of the request (usually 0 for new items)
    * @returns Promise resolving to appeal funding information
@@ -1177,29 +2040,34 @@ export class LightCurateRegistry {
     appealed: boolean;
     currentRuling: number;
     roundIndex: number;
+    appealPeriodStart: number;
+    appealPeriodEnd: number;
+    requesterFundingDeadline: number | null;
+    challengerFundingDeadline: number | null;
+    requesterCanFund: boolean;
+    challengerCanFund: boolean;
   }> => {
     try {
       const web3 = await this.getWeb3();
       const contract = await this.getContract();
 
       // Get dispute data for the item and request
-      const disputeData = await contract.methods
+      const disputeData: RequestInfo = await contract.methods
         .getRequestInfo(itemID, requestID)
         .call();
 
       // If the request isn't disputed, there's no appeal funding
       if (!disputeData.disputed) {
-        throw new Error("Item is not disputed, no appeal funding available");
+        throw new NotDisputedError(itemID, requestID);
       }
 
-      const numberOfRounds = parseInt(disputeData.numberOfRounds);
-      const currentRuling = parseInt(disputeData.ruling);
+      const numberOfRounds = Number(disputeData.numberOfRounds);
 
       // Current round index (0-based, so subtract 1)
       const roundIndex = numberOfRounds - 1;
 
       // Get the round info for the current round
-      const roundInfo = await contract.methods
+      const roundInfo: RoundInfo = await contract.methods
         .getRoundInfo(itemID, requestID, roundIndex)
         .call();
 
@@ -1207,8 +2075,8 @@ export class LightCurateRegistry {
       const appealed = roundInfo.appealed;
 
       // Party enum: None = 0, Requester = 1, Challenger = 2
-      const requesterAmountPaidWei = roundInfo.amountPaid[1]; // Requester = 1
-      const challengerAmountPaidWei = roundInfo.amountPaid[2]; // Challenger = 2
+      const requesterAmountPaidWei = roundInfo.amountPaid[1].toString(); // Requester = 1
+      const challengerAmountPaidWei = roundInfo.amountPaid[2].toString(); // Challenger = 2
 
       const requesterFunded = roundInfo.hasPaid[1]; // Requester = 1
       const challengerFunded = roundInfo.hasPaid[2]; // Challenger = 2
@@ -1223,8 +2091,43 @@ export class LightCurateRegistry {
         "ether"
       );
 
-      // Get total appeal costs
+      // Get total appeal costs, priced with the arbitrator's current ruling
       const appealCosts = await this.getAppealCost(itemID, requestID);
+      const currentRuling = appealCosts.currentRuling;
+
+      // The arbitrator reports a zero window outside of the appeal period.
+      // Use the chain's clock, which is what the contract checks against.
+      const arbitrator = await this.getKlerosLiquidContract(
+        disputeData.requestArbitrator
+      );
+      const [appealPeriod, latestBlock] = await Promise.all([
+        arbitrator.methods.appealPeriod(disputeData.disputeID).call(),
+        web3.eth.getBlock("latest"),
+      ]);
+      const appealPeriodStart = Number(appealPeriod.start);
+      const appealPeriodEnd = Number(appealPeriod.end);
+      const now = Number(latestBlock.timestamp);
+
+      // The winner (or both sides when the arbitrator refused to rule) can fund
+      // until the end of the appeal period, the loser only in its first half
+      let requesterFundingDeadline: number | null = null;
+      let challengerFundingDeadline: number | null = null;
+      if (appealPeriodEnd > 0) {
+        const loserDeadline = Math.floor(
+          (appealPeriodStart + appealPeriodEnd) / 2
+        );
+        requesterFundingDeadline =
+          currentRuling === 2 ? loserDeadline : appealPeriodEnd;
+        challengerFundingDeadline =
+          currentRuling === 1 ? loserDeadline : appealPeriodEnd;
+      }
+
+      const canFund = (funded: boolean, deadline: number | null) =>
+        !funded &&
+        !appealed &&
+        deadline !== null &&
+        now >= appealPeriodStart &&
+        now < deadline;
 
       // Calculate remaining amounts to fund
       const requesterRemainingToFundWei =
@@ -1268,13 +2171,106 @@ export class LightCurateRegistry {
         appealed,
         currentRuling,
         roundIndex,
+        appealPeriodStart,
+        appealPeriodEnd,
+        requesterFundingDeadline,
+        challengerFundingDeadline,
+        requesterCanFund: canFund(requesterFunded, requesterFundingDeadline),
+        challengerCanFund: canFund(challengerFunded, challengerFundingDeadline),
       };
     } catch (error: any) {
-      console.error("Error getting appeal funding status:", error);
-      throw new Error(`Failed to get appeal funding status: ${error.message}`);
+      log.error("Error getting appeal funding status:", error);
+      throw toLightCurateError(error, "Failed to get appeal funding status");
     }
   };
 
+  /**
+   * Builds the fundAppeal call, capping the amount at what the side still needs.
+   * Throws AppealWindowClosedError once the side's funding deadline has passed.
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request
+   * @param side The side to fund the appeal for (1 = Requester, 2 = Challenger)
+   * @param amount Optional amount to contribute in ETH, defaults to the remaining amount
+   * @returns The call, sent with the contribution
+   */
+  private fundAppealCall = async (
+    itemID: string,
+    requestID: number,
+    side: 1 | 2,
+    amount?: string
+  ): Promise<RegistryCall> => {
+    const web3 = await this.getWeb3();
+    const contract = await this.getContract();
+
+    // Get current funding status
+    const fundingStatus = await this.getAppealFundingStatus(itemID, requestID);
+
+    // Check if side is already fully funded
+    if (
+      (side === 1 && fundingStatus.requesterFunded) ||
+      (side === 2 && fundingStatus.challengerFunded)
+    ) {
+      throw new AppealFullyFundedError(side);
+    }
+
+    // The contract rejects contributions outside of the side's funding window
+    if (
+      (side === 1 && !fundingStatus.requesterCanFund) ||
+      (side === 2 && !fundingStatus.challengerCanFund)
+    ) {
+      // Tell a window that has not opened yet apart from one that closed
+      const latestBlock = await web3.eth.getBlock("latest");
+      const opensAt =
+        Number(latestBlock.timestamp) < fundingStatus.appealPeriodStart
+          ? fundingStatus.appealPeriodStart
+          : null;
+
+      throw new AppealWindowClosedError(
+        side,
+        side === 1
+          ? fundingStatus.requesterFundingDeadline
+          : fundingStatus.challengerFundingDeadline,
+        opensAt
+      );
+    }
+
+    // Determine amount to send
+    let amountToSendWei: string;
+
+    if (amount) {
+      // User specified amount
+      amountToSendWei = web3.utils.toWei(amount, "ether");
+
+      // Get the remaining amount needed
+      const remainingNeededWei =
+        side === 1
+          ? fundingStatus.requesterRemainingToFundWei
+          : fundingStatus.challengerRemainingToFundWei;
+
+      // Check if user is trying to contribute more than needed
+      if (BigInt(amountToSendWei) > BigInt(remainingNeededWei)) {
+        amountToSendWei = remainingNeededWei;
+      }
+    } else {
+      // Auto-calculate amount - send only what's remaining to fund
+      amountToSendWei =
+        side === 1
+          ? fundingStatus.requesterRemainingToFundWei
+          : fundingStatus.challengerRemainingToFundWei;
+    }
+
+    // If amount is 0, the appeal is already fully funded
+    if (amountToSendWei === "0") {
+      throw new AppealFullyFundedError(side);
+    }
+
+    return {
+      method: contract.methods.fundAppeal(itemID, side),
+      value: amountToSendWei,
+      itemID,
+    };
+  };
+
   /**
    * Fund an appeal for a ruling, supporting partial funding for crowdfunding
    * @param itemID The ID of the item
@@ -1282,230 +2278,540 @@ export class LightCurateRegistry {
    * @param side The side to fund the appeal for (1 = Requester, 2 = Challenger)
    * @param amount Optional amount to contribute (if not specified, will fund the remaining required amount).
    *               Partial amounts are allowed for crowdfunding appeals.
-   * @returns Transaction hash of the appeal funding
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
    */
   fundAppeal = async (
     itemID: string,
     requestID: number = 0,
     side: 1 | 2,
-    amount?: string
-  ): Promise<string> => {
-    if (typeof window === "undefined" || !window.ethereum) {
-      throw new Error(
-        "MetaMask is not installed. Please install MetaMask to continue."
-      );
-    }
-
+    amount?: string,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
     try {
       // Ensure we're on the correct chain
       await this.ensureCorrectChain();
 
-      const accounts = await window.ethereum.request({
-        method: "eth_requestAccounts",
-      });
-      const from = accounts[0];
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
 
-      // Create Web3 instance
-      const web3 = await this.getWeb3(window.ethereum);
+      const call = await this.fundAppealCall(itemID, requestID, side, amount);
+
+      // Submit fund appeal transaction
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error funding appeal:", error);
+
+      throw toLightCurateError(error, "Failed to fund appeal");
+    }
+  };
+
+  /**
+   * Previews fundAppeal without sending anything
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request (usually 0 for new items)
+   * @param side The side to fund the appeal for (1 = Requester, 2 = Challenger)
+   * @param amount Optional amount to contribute in ETH, defaults to the remaining amount
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareFundAppeal = async (
+    itemID: string,
+    requestID: number = 0,
+    side: 1 | 2,
+    amount?: string,
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.fundAppealCall(itemID, requestID, side, amount);
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing appeal funding:", error);
+      throw toLightCurateError(error, "Failed to prepare appeal funding");
+    }
+  };
+
+  /**
+   * Computes the fees and rewards a beneficiary can withdraw from a round,
+   * mirroring the contract's withdrawFeesAndRewards logic
+   * @param beneficiary The address that made contributions
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request
+   * @param roundID The ID of the round
+   * @returns Promise resolving to the withdrawable reward information
+   */
+  getWithdrawableAmount = async (
+    beneficiary: string,
+    itemID: string,
+    requestID: number,
+    roundID: number
+  ): Promise<WithdrawableReward> => {
+    try {
+      const web3 = await this.getWeb3();
       const contract = await this.getContract();
 
-      // Get current funding status
-      const fundingStatus = await this.getAppealFundingStatus(
+      const requestInfo = await contract.methods
+        .getRequestInfo(itemID, requestID)
+        .call();
+
+      const baseReward = {
         itemID,
-        requestID
-      );
+        requestID,
+        roundID,
+        amount: "0",
+        amountWei: "0",
+        withdrawable: false,
+      };
 
-      // Check if side is already fully funded
-      if (
-        (side === 1 && fundingStatus.requesterFunded) ||
-        (side === 2 && fundingStatus.challengerFunded)
-      ) {
-        throw new Error(`Appeal for this side is already fully funded`);
+      // Rewards can only be withdrawn once the dispute has been resolved
+      if (!requestInfo.disputed) {
+        return { ...baseReward, reason: "Request was not disputed" };
+      }
+      if (!requestInfo.resolved) {
+        return { ...baseReward, reason: "Request is not resolved yet" };
       }
 
-      // Determine amount to send
-      let amountToSendWei: string;
-
-      if (amount) {
-        // User specified amount
-        amountToSendWei = web3.utils.toWei(amount, "ether");
+      const numberOfRounds = Number(requestInfo.numberOfRounds);
+      if (roundID >= numberOfRounds) {
+        return { ...baseReward, reason: "Round does not exist" };
+      }
 
-        // Get the remaining amount needed
-        const remainingNeededWei =
-          side === 1
-            ? fundingStatus.requesterRemainingToFundWei
-            : fundingStatus.challengerRemainingToFundWei;
+      const ruling = Number(requestInfo.ruling);
+      const contributions = await contract.methods
+        .getContributions(itemID, requestID, roundID, beneficiary)
+        .call();
+      const roundInfo = await contract.methods
+        .getRoundInfo(itemID, requestID, roundID)
+        .call();
 
-        // Check if user is trying to contribute more than needed
-        if (BigInt(amountToSendWei) > BigInt(remainingNeededWei)) {
-          amountToSendWei = remainingNeededWei;
-        }
+      // Party enum: None = 0, Requester = 1, Challenger = 2
+      const requesterContribution = BigInt(contributions[1]);
+      const challengerContribution = BigInt(contributions[2]);
+      const requesterAmountPaid = BigInt(roundInfo.amountPaid[1]);
+      const challengerAmountPaid = BigInt(roundInfo.amountPaid[2]);
+      const feeRewards = BigInt(roundInfo.feeRewards);
+
+      let rewardWei = BigInt(0);
+      if (roundID === numberOfRounds - 1) {
+        // Reimburse contributions to the last round, which was never appealed
+        rewardWei = requesterContribution + challengerContribution;
+      } else if (ruling === 0) {
+        // No ruling: split rewards proportionally across both sides
+        const totalFeesInRound = requesterAmountPaid + challengerAmountPaid;
+        rewardWei =
+          totalFeesInRound > 0
+            ? ((requesterContribution + challengerContribution) * feeRewards) /
+              totalFeesInRound
+            : BigInt(0);
       } else {
-        // Auto-calculate amount - send only what's remaining to fund
-        amountToSendWei =
-          side === 1
-            ? fundingStatus.requesterRemainingToFundWei
-            : fundingStatus.challengerRemainingToFundWei;
+        // Reward contributors to the winning side
+        const winnerAmountPaid =
+          ruling === 1 ? requesterAmountPaid : challengerAmountPaid;
+        const winnerContribution =
+          ruling === 1 ? requesterContribution : challengerContribution;
+        rewardWei =
+          winnerAmountPaid > 0
+            ? (winnerContribution * feeRewards) / winnerAmountPaid
+            : BigInt(0);
       }
 
-      // If amount is 0, the appeal is already fully funded
-      if (amountToSendWei === "0") {
-        throw new Error(`This side of the appeal is already fully funded`);
-      }
+      const amountWei = rewardWei.toString();
 
-      // Estimate gas and get current gas price
-      const gasEstimate = await contract.methods
-        .fundAppeal(itemID, requestID, side)
-        .estimateGas({
-          from,
-          value: amountToSendWei,
-        });
-      const gasPrice = await web3.eth.getGasPrice();
+      return {
+        ...baseReward,
+        amount: web3.utils.fromWei(amountWei, "ether"),
+        amountWei,
+        withdrawable: rewardWei > 0,
+        reason: rewardWei > 0 ? undefined : "Nothing to withdraw",
+      };
+    } catch (error: any) {
+      log.error("Error getting withdrawable amount:", error);
+      throw toLightCurateError(error, "Failed to get withdrawable amount");
+    }
+  };
 
-      // Calculate gas with 20% buffer
-      const gasBigInt = BigInt(gasEstimate);
-      const gasWithBuffer = (
-        (gasBigInt * BigInt(120)) /
-        BigInt(100)
-      ).toString();
+  /**
+   * Builds the withdrawFeesAndRewards call for a single round
+   * @param beneficiary The address that made contributions
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request
+   * @param roundID The ID of the round
+   * @returns The call
+   */
+  private withdrawFeesAndRewardsCall = async (
+    beneficiary: string,
+    itemID: string,
+    requestID: number,
+    roundID: number
+  ): Promise<RegistryCall> => {
+    const contract = await this.getContract();
+
+    return {
+      method: contract.methods.withdrawFeesAndRewards(
+        beneficiary,
+        itemID,
+        requestID,
+        roundID
+      ),
+      itemID,
+      requestIndex: requestID,
+    };
+  };
 
-      // Submit fund appeal transaction
-      const txReceipt = await contract.methods
-        .fundAppeal(itemID, requestID, side)
-        .send({
-          from,
-          gas: gasWithBuffer,
-          gasPrice: gasPrice.toString(),
-          value: amountToSendWei,
-        });
+  /**
+   * Withdraws the fees and rewards owed to a beneficiary for a single round
+   * @param beneficiary The address that made contributions (funds are sent to this address)
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request
+   * @param roundID The ID of the round
+   * @param txOptions Lifecycle callbacks (onSigned, onTransactionHash, onReceipt, onConfirmation), confirmations and timeout
+   * @returns Promise resolving to the transaction outcome (hash, receipt, item ID, request index and decoded events)
+   */
+  withdrawFeesAndRewards = async (
+    beneficiary: string,
+    itemID: string,
+    requestID: number,
+    roundID: number,
+    txOptions: TransactionOptions = {}
+  ): Promise<TransactionOutcome> => {
+    try {
+      // Ensure we're on the correct chain
+      await this.ensureCorrectChain();
+
+      const signer = this.getSigner();
+      const from = await signer.getAddress();
+
+      const call = await this.withdrawFeesAndRewardsCall(
+        beneficiary,
+        itemID,
+        requestID,
+        roundID
+      );
+
+      // Submit withdrawal transaction
+      return await this.sendRegistryCall(call, from, txOptions);
+    } catch (error: any) {
+      log.error("Error withdrawing fees and rewards:", error);
+
+      throw toLightCurateError(error, "Failed to withdraw fees and rewards");
+    }
+  };
+
+  /**
+   * Previews withdrawFeesAndRewards without sending anything
+   * @param beneficiary The address that made contributions
+   * @param itemID The ID of the item
+   * @param requestID The ID of the request
+   * @param roundID The ID of the round
+   * @param options The sender to simulate from (defaults to the signer's address) and gas overrides
+   * @returns Promise resolving to the unsigned transaction, whether it would revert and its cost
+   */
+  prepareWithdrawFeesAndRewards = async (
+    beneficiary: string,
+    itemID: string,
+    requestID: number,
+    roundID: number,
+    options: PrepareOptions = {}
+  ): Promise<TransactionPreview> => {
+    try {
+      const call = await this.withdrawFeesAndRewardsCall(
+        beneficiary,
+        itemID,
+        requestID,
+        roundID
+      );
+      return await this.previewCall(call, options);
+    } catch (error: any) {
+      log.error("Error preparing withdrawal:", error);
+      throw toLightCurateError(error, "Failed to prepare withdrawal");
+    }
+  };
 
-      return txReceipt.transactionHash;
+  /**
+   * Withdraws everything owed to a beneficiary in this registry. Eligible rounds are
+   * discovered from the subgraph and re-checked on-chain before withdrawing.
+   * A round that fails (rejected, reverted, timed out) does not stop the others.
+   * @param beneficiary The address that made contributions
+   * @param options Optional custom subgraph URL
+   * @param txOptions Lifecycle callbacks and confirmation options, applied to each withdrawal
+   * @returns Promise resolving to the completed withdrawals (rewards with their
+   * transaction outcomes) and the rounds that failed with their errors
+   */
+  withdrawAllFeesAndRewards = async (
+    beneficiary: string,
+    options: { customSubgraphUrl?: string } = {},
+    txOptions: TransactionOptions = {}
+  ): Promise<WithdrawAllResult> => {
+    let contributions: LContribution[];
+    try {
+      contributions = await fetchWithdrawableContributions(
+        this.contractAddress,
+        beneficiary,
+        this.chainId,
+        options
+      );
     } catch (error: any) {
-      console.error("Error funding appeal:", error);
+      log.error("Error fetching withdrawable contributions:", error);
+      throw toLightCurateError(
+        error,
+        "Failed to fetch withdrawable contributions"
+      );
+    }
+
+    // Several contributions can target the same round, withdraw each round once
+    const rounds = new Map<
+      string,
+      { itemID: string; requestID: number; roundID: number }
+    >();
+    contributions.forEach((contribution) => {
+      // Request IDs end in -<requestIndex> and round IDs in -<roundIndex>
+      const requestId = contribution.round.request.id;
+      const roundId = contribution.round.id;
+      const requestID = parseInt(
+        requestId.substring(requestId.lastIndexOf("-") + 1)
+      );
+      const roundID = parseInt(roundId.substring(roundId.lastIndexOf("-") + 1));
+      const itemID = contribution.round.request.item.itemID;
 
-      // Format error for user
-      let errorMessage = "Failed to fund appeal";
+      rounds.set(`${itemID}-${requestID}-${roundID}`, {
+        itemID,
+        requestID,
+        roundID,
+      });
+    });
 
-      if (error.code === 4001) {
-        errorMessage = "Transaction rejected by user";
-      } else if (error.message) {
-        errorMessage = `Error: ${error.message}`;
+    const result: WithdrawAllResult = { outcomes: [], failures: [] };
+
+    // Withdraw sequentially to avoid nonce collisions
+    for (const { itemID, requestID, roundID } of rounds.values()) {
+      try {
+        const reward = await this.getWithdrawableAmount(
+          beneficiary,
+          itemID,
+          requestID,
+          roundID
+        );
+        if (!reward.withdrawable) {
+          continue;
+        }
+
+        const outcome = await this.withdrawFeesAndRewards(
+          beneficiary,
+          itemID,
+          requestID,
+          roundID,
+          txOptions
+        );
+        result.outcomes.push({ ...reward, ...outcome });
+      } catch (error: any) {
+        log.error(
+          `Error withdrawing round ${roundID} of request ${requestID} for item ${itemID}:`,
+          error
+        );
+        result.failures.push({
+          itemID,
+          requestID,
+          roundID,
+          error: toLightCurateError(
+            error,
+            "Failed to withdraw fees and rewards"
+          ),
+        });
       }
+    }
+
+    return result;
+  };
+
+  /**
+   * Gets every MetaEvidence version emitted by the registry, with the block
+   * and timestamp at which each became active. The event scan is cached per
+   * instance and reused for calls whose fromBlock it covers; pass forceRefresh
+   * to pick up newer versions.
+   * @param options fromBlock to start scanning from (e.g. the deployment block)
+   * @returns Promise resolving to the versions ordered by MetaEvidence ID
+   */
+  getMetaEvidenceHistory = async (
+    options: { fromBlock?: number; forceRefresh?: boolean } = {}
+  ): Promise<MetaEvidenceVersion[]> => {
+    const { fromBlock = 0, forceRefresh = false } = options;
+
+    // A scan that started at or before fromBlock covers the requested range
+    const cached = this.metaEvidenceHistory;
+    if (!forceRefresh && cached && cached.fromBlock <= fromBlock) {
+      return cached.versions.filter(
+        (version) => version.blockNumber >= fromBlock
+      );
+    }
+
+    try {
+      const web3 = await this.getWeb3();
+      const contract = await this.getContract();
+
+      const events = await contract.getPastEvents("MetaEvidence", {
+        fromBlock,
+      });
+
+      // Fetch each block once for its timestamp
+      const blockNumbers = Array.from(
+        new Set(events.map((event) => Number(event.blockNumber)))
+      );
+      const timestamps = new Map<number, number>(
+        await Promise.all(
+          blockNumbers.map(async (blockNumber): Promise<[number, number]> => [
+            blockNumber,
+            Number((await web3.eth.getBlock(blockNumber)).timestamp),
+          ])
+        )
+      );
 
-      throw new Error(errorMessage);
+      const history: MetaEvidenceVersion[] = events
+        .map((event) => {
+          const metaEvidenceID = Number(event.returnValues._metaEvidenceID);
+          const blockNumber = Number(event.blockNumber);
+          return {
+            metaEvidenceID,
+            type:
+              metaEvidenceID % 2 === 0
+                ? ("registration" as const)
+                : ("clearing" as const),
+            URI: event.returnValues._evidence,
+            blockNumber,
+            timestamp: timestamps.get(blockNumber) || 0,
+            transactionHash: event.transactionHash,
+          };
+        })
+        .sort((a, b) => a.metaEvidenceID - b.metaEvidenceID);
+
+      this.metaEvidenceHistory = { fromBlock, versions: history };
+      return history;
+    } catch (error: any) {
+      log.error("Error fetching MetaEvidence history:", error);
+      throw toLightCurateError(error, "Failed to fetch MetaEvidence history");
     }
   };
 
   /**
-   * Gets the latest MetaEvidence URIs for both registration and clearing requests
+   * Gets the latest MetaEvidence URIs for both registration and clearing requests.
+   * Reads the subgraph first and falls back to scanning the contract events.
+   * @param options Subgraph URL override and event scan settings for the fallback
    * @returns Promise resolving to an object containing both MetaEvidence URIs
    */
-  getLatestMetaEvidence = async (): Promise<{
+  getLatestMetaEvidence = async (
+    options: {
+      customSubgraphUrl?: string;
+      fromBlock?: number;
+      forceRefresh?: boolean;
+    } = {}
+  ): Promise<{
     registrationMetaEvidence: string;
     clearingMetaEvidence: string;
   }> => {
+    const { customSubgraphUrl, fromBlock, forceRefresh } = options;
+
+    if (customSubgraphUrl || getChainConfig(this.chainId).subgraphUrl) {
+      try {
+        const registry = await fetchRegistryData(
+          this.contractAddress,
+          this.chainId,
+          { customSubgraphUrl }
+        );
+        if (registry) {
+          return {
+            registrationMetaEvidence: registry.registrationMetaEvidence.URI,
+            clearingMetaEvidence: registry.clearingMetaEvidence.URI,
+          };
+        }
+      } catch (error) {
+        log.warn(
+          "Subgraph MetaEvidence unavailable, scanning contract events:",
+          error
+        );
+      }
+    }
+
     try {
-      // Use existing web3 instance and contract from the class
-      const web3 = await this.getWeb3();
       const contract = await this.getContract();
 
-      console.log("Getting MetaEvidence updates...");
-      // Get the number of MetaEvidence updates
-      const metaEvidenceUpdates = await contract.methods
-        .metaEvidenceUpdates()
-        .call();
-      console.log("MetaEvidence updates:", metaEvidenceUpdates);
+      const metaEvidenceUpdates = Number(
+        await contract.methods.metaEvidenceUpdates().call()
+      );
+      if (metaEvidenceUpdates === 0) {
+        throw new Error("The registry has no MetaEvidence");
+      }
 
-      // Calculate the latest MetaEvidence IDs
-      const latestRegistrationId = 2 * (Number(metaEvidenceUpdates) - 1);
+      // Each update emits a registration and a clearing MetaEvidence
+      const latestRegistrationId = 2 * (metaEvidenceUpdates - 1);
       const latestClearingId = latestRegistrationId + 1;
-      console.log("Latest registration ID:", latestRegistrationId);
-      console.log("Latest clearing ID:", latestClearingId);
 
-      // Get past events for both MetaEvidence types
-      console.log("Fetching past MetaEvidence events...");
-      const events = await contract.getPastEvents("MetaEvidence", {
-        fromBlock: 0,
+      const history = await this.getMetaEvidenceHistory({
+        fromBlock,
+        forceRefresh,
       });
-      console.log(`Found ${events.length} MetaEvidence events total`);
-
-      // Log all events for inspection
-      events.forEach(
-        (
-          e: { returnValues: { _metaEvidenceID: string; _evidence: string } },
-          i: number
-        ) => {
-          console.log(
-            `Event ${i}: ID=${e.returnValues._metaEvidenceID}, Evidence=${e.returnValues._evidence}`
-          );
-        }
-      );
-
-      // Find the specific events
-      console.log(
-        "Looking for registration event with ID:",
-        latestRegistrationId
+      const registration = history.find(
+        (version) => version.metaEvidenceID === latestRegistrationId
       );
-      const registrationEvent = events.find(
-        (e: { returnValues: { _metaEvidenceID: string } }) => {
-          console.log(
-            `Comparing: event ID "${e.returnValues._metaEvidenceID}" (${typeof e.returnValues._metaEvidenceID}) with search ID "${latestRegistrationId.toString()}" (${typeof latestRegistrationId.toString()})`
-          );
-          return (
-            e.returnValues._metaEvidenceID == latestRegistrationId.toString()
-          );
-        }
-      );
-      console.log("Registration event found:", !!registrationEvent);
-
-      console.log("Looking for clearing event with ID:", latestClearingId);
-      const clearingEvent = events.find(
-        (e: { returnValues: { _metaEvidenceID: string } }) => {
-          console.log(
-            `Comparing: event ID "${e.returnValues._metaEvidenceID}" (${typeof e.returnValues._metaEvidenceID}) with search ID "${latestClearingId.toString()}" (${typeof latestClearingId.toString()})`
-          );
-          return e.returnValues._metaEvidenceID == latestClearingId.toString();
-        }
+      const clearing = history.find(
+        (version) => version.metaEvidenceID === latestClearingId
       );
-      console.log("Clearing event found:", !!clearingEvent);
-
-      if (!registrationEvent || !clearingEvent) {
-        // If specific events not found, let's try to use the first pair
-        if (events.length >= 2) {
-          console.log(
-            "Specific events not found. Attempting to use the first registration and clearing events..."
-          );
-          const firstEvents = events.filter(
-            (e: { returnValues: { _metaEvidenceID: string } }) => {
-              console.log(
-                `Filtering: event ID "${e.returnValues._metaEvidenceID}" (${typeof e.returnValues._metaEvidenceID})`
-              );
-              return (
-                e.returnValues._metaEvidenceID == "0" ||
-                e.returnValues._metaEvidenceID == "1"
-              );
-            }
-          );
-          console.log(`Found ${firstEvents.length} initial events`);
-
-          if (firstEvents.length >= 2) {
-            return {
-              registrationMetaEvidence: firstEvents[0].returnValues._evidence,
-              clearingMetaEvidence: firstEvents[1].returnValues._evidence,
-            };
-          }
-        }
 
+      if (!registration || !clearing) {
         throw new Error("Could not find latest MetaEvidence events");
       }
 
       return {
-        registrationMetaEvidence: registrationEvent.returnValues._evidence,
-        clearingMetaEvidence: clearingEvent.returnValues._evidence,
+        registrationMetaEvidence: registration.URI,
+        clearingMetaEvidence: clearing.URI,
+      };
+    } catch (error: any) {
+      log.error("Error fetching MetaEvidence:", error);
+      throw toLightCurateError(error, "Failed to fetch MetaEvidence");
+    }
+  };
+
+  /**
+   * Gets the latest registration and clearing MetaEvidence as parsed documents
+   * @param options includeHistory to also return every MetaEvidence version
+   * (requires an event scan), plus the options of getLatestMetaEvidence
+   * @returns Promise resolving to the parsed MetaEvidence
+   */
+  getMetaEvidence = async (
+    options: {
+      includeHistory?: boolean;
+      customSubgraphUrl?: string;
+      fromBlock?: number;
+      forceRefresh?: boolean;
+    } = {}
+  ): Promise<RegistryMetaEvidence> => {
+    const { includeHistory = false, ...latestOptions } = options;
+
+    const { registrationMetaEvidence, clearingMetaEvidence } =
+      await this.getLatestMetaEvidence(latestOptions);
+
+    try {
+      const gateway = getChainConfig(this.chainId).ipfsGateway;
+      const [registration, clearing, history] = await Promise.all([
+        fetchFromIPFS(registrationMetaEvidence, gateway),
+        fetchFromIPFS(clearingMetaEvidence, gateway),
+        includeHistory
+          ? this.getMetaEvidenceHistory(latestOptions)
+          : Promise.resolve(undefined),
+      ]);
+
+      return {
+        registration: {
+          URI: registrationMetaEvidence,
+          document: parseMetaEvidence(registration),
+        },
+        clearing: {
+          URI: clearingMetaEvidence,
+          document: parseMetaEvidence(clearing),
+        },
+        history,
       };
     } catch (error: any) {
-      console.error("Error fetching MetaEvidence:", error);
-      throw new Error(`Failed to fetch MetaEvidence: ${error.message}`);
+      log.error("Error fetching MetaEvidence documents:", error);
+      throw toLightCurateError(error, "Failed to fetch MetaEvidence");
     }
   };
 }
@@ -0,0 +1,117 @@
+// Tests for the appeal fee calculator, run against the build output
+// (`npm run test:appeals` builds first)
+
+const { expect } = require("chai");
+const { calculateAppealFees } = require("../dist/appeals");
+
+const ETHER = BigInt("1000000000000000000");
+
+const multipliers = {
+  winnerStakeMultiplier: BigInt(10000), // 100%
+  loserStakeMultiplier: BigInt(20000), // 200%
+  sharedStakeMultiplier: BigInt(5000), // 50%
+  multiplierDivisor: BigInt(10000),
+};
+
+describe("calculateAppealFees", () => {
+  const appealCost = BigInt(3) * ETHER;
+
+  it("charges both sides the shared stake when the arbitrator refused to rule", () => {
+    const fees = calculateAppealFees({
+      ...multipliers,
+      appealCost,
+      currentRuling: 0,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(BigInt("4500000000000000000"));
+    expect(fees.challengerAppealFee).to.equal(BigInt("4500000000000000000"));
+  });
+
+  it("charges the requester the winner stake when the ruling accepts (1)", () => {
+    const fees = calculateAppealFees({
+      ...multipliers,
+      appealCost,
+      currentRuling: 1,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(BigInt(6) * ETHER);
+    expect(fees.challengerAppealFee).to.equal(BigInt(9) * ETHER);
+  });
+
+  it("charges the challenger the winner stake when the ruling rejects (2)", () => {
+    const fees = calculateAppealFees({
+      ...multipliers,
+      appealCost,
+      currentRuling: 2,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(BigInt(9) * ETHER);
+    expect(fees.challengerAppealFee).to.equal(BigInt(6) * ETHER);
+  });
+
+  it("falls back to the shared stake for rulings outside the registry's options", () => {
+    for (const currentRuling of [3, 7, -1]) {
+      const fees = calculateAppealFees({
+        ...multipliers,
+        appealCost,
+        currentRuling,
+      });
+
+      expect(fees.requesterAppealFee).to.equal(BigInt("4500000000000000000"));
+      expect(fees.challengerAppealFee).to.equal(BigInt("4500000000000000000"));
+    }
+  });
+
+  it("uses the divisor it is given", () => {
+    const fees = calculateAppealFees({
+      ...multipliers,
+      multiplierDivisor: BigInt(20000),
+      appealCost,
+      currentRuling: 1,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(BigInt("4500000000000000000"));
+    expect(fees.challengerAppealFee).to.equal(BigInt(6) * ETHER);
+  });
+
+  it("rounds stakes down like the contract", () => {
+    // 7 * 3333 / 10000 = 2.3331, 7 * 6667 / 10000 = 4.6669
+    const fees = calculateAppealFees({
+      winnerStakeMultiplier: BigInt(3333),
+      loserStakeMultiplier: BigInt(6667),
+      sharedStakeMultiplier: BigInt(1),
+      multiplierDivisor: BigInt(10000),
+      appealCost: BigInt(7),
+      currentRuling: 2,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(BigInt(11));
+    expect(fees.challengerAppealFee).to.equal(BigInt(9));
+  });
+
+  it("keeps precision beyond Number.MAX_SAFE_INTEGER", () => {
+    const largeCost = BigInt(Number.MAX_SAFE_INTEGER) * ETHER + BigInt(1);
+    const fees = calculateAppealFees({
+      ...multipliers,
+      appealCost: largeCost,
+      currentRuling: 1,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(largeCost * BigInt(2));
+    expect(fees.challengerAppealFee).to.equal(largeCost * BigInt(3));
+  });
+
+  it("charges only the appeal cost when the multipliers are zero", () => {
+    const fees = calculateAppealFees({
+      winnerStakeMultiplier: BigInt(0),
+      loserStakeMultiplier: BigInt(0),
+      sharedStakeMultiplier: BigInt(0),
+      multiplierDivisor: BigInt(10000),
+      appealCost,
+      currentRuling: 2,
+    });
+
+    expect(fees.requesterAppealFee).to.equal(appealCost);
+    expect(fees.challengerAppealFee).to.equal(appealCost);
+  });
+});
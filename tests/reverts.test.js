@@ -0,0 +1,191 @@
+// Tests that transactions mined with a failed status surface as
+// ContractRevertError with their hash, for every signer type. Runs against
+// the build output (`npm test` builds first).
+
+const http = require("http");
+const { expect } = require("chai");
+const { ethers } = require("ethers");
+const { LightCurateRegistry, ContractRevertError } = require("../dist");
+
+const REGISTRY = "0x0000000000000000000000000000000000000001";
+const TX_HASH = "0x" + "ab".repeat(32);
+const PRIVATE_KEY = "0x" + "11".repeat(32);
+
+const transaction = {
+  from: new ethers.Wallet(PRIVATE_KEY).address,
+  to: REGISTRY,
+  data: "0x",
+  value: "0",
+  gas: "100000",
+  gasPrice: "1000000000",
+};
+
+/**
+ * Answers the JSON-RPC calls web3.js makes while sending a transaction,
+ * mining it with a failed status
+ */
+function handleRpc(method) {
+  switch (method) {
+    case "eth_chainId":
+      return "0x1";
+    case "net_version":
+      return "1";
+    case "eth_accounts":
+    case "eth_requestAccounts":
+      return [transaction.from];
+    case "eth_getTransactionCount":
+    case "eth_blockNumber":
+      return "0x1";
+    case "eth_gasPrice":
+    case "eth_maxPriorityFeePerGas":
+      return "0x3b9aca00";
+    case "eth_estimateGas":
+      return "0x186a0";
+    case "eth_getBlockByNumber":
+      return {
+        number: "0x1",
+        hash: "0x" + "cd".repeat(32),
+        parentHash: "0x" + "00".repeat(32),
+        timestamp: "0x1",
+        baseFeePerGas: "0x3b9aca00",
+        gasLimit: "0x1c9c380",
+        gasUsed: "0x0",
+        transactions: [],
+      };
+    case "eth_call":
+      // The pre-send simulation passes, the transaction reverts once mined
+      return "0x";
+    case "eth_sendTransaction":
+    case "eth_sendRawTransaction":
+      return TX_HASH;
+    case "eth_getTransactionReceipt":
+      return {
+        transactionHash: TX_HASH,
+        transactionIndex: "0x0",
+        blockHash: "0x" + "cd".repeat(32),
+        blockNumber: "0x1",
+        from: transaction.from,
+        to: REGISTRY,
+        cumulativeGasUsed: "0x5208",
+        gasUsed: "0x5208",
+        effectiveGasPrice: "0x3b9aca00",
+        logs: [],
+        logsBloom: "0x" + "00".repeat(256),
+        status: "0x0",
+        type: "0x0",
+      };
+    default:
+      throw new Error(`Unexpected RPC call: ${method}`);
+  }
+}
+
+/**
+ * Sends the transaction through the registry's send path, which every
+ * write method uses
+ */
+function send(registry) {
+  const hashes = [];
+  return registry
+    .sendRegistryTransaction(transaction, {
+      onTransactionHash: (hash) => hashes.push(hash),
+    })
+    .then(
+      () => {
+        throw new Error("Expected the transaction to revert");
+      },
+      (error) => ({ error, hashes })
+    );
+}
+
+function expectRevert({ error, hashes }) {
+  expect(error).to.be.instanceOf(ContractRevertError);
+  expect(error.transactionHash).to.equal(TX_HASH);
+  expect(error.message).to.contain(TX_HASH);
+  expect(hashes).to.deep.equal([TX_HASH]);
+  // The receipt of the failed transaction is kept as the cause
+  expect(error.cause).to.have.property("transactionHash");
+  expect(Number(error.cause.status)).to.equal(0);
+}
+
+describe("reverted transactions", () => {
+  it("are reported as ContractRevertError for EIP-1193 signers", async () => {
+    const provider = {
+      request: async ({ method }) => handleRpc(method),
+    };
+    const registry = new LightCurateRegistry(REGISTRY, 1, {
+      signer: { type: "eip1193", provider },
+    });
+
+    expectRevert(await send(registry));
+  });
+
+  describe("with a private key signer", () => {
+    let server;
+    let rpcUrl;
+
+    before((done) => {
+      server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          const { id, method } = JSON.parse(body);
+          res.setHeader("Content-Type", "application/json");
+          try {
+            res.end(JSON.stringify({ jsonrpc: "2.0", id, result: handleRpc(method) }));
+          } catch (error) {
+            res.end(
+              JSON.stringify({
+                jsonrpc: "2.0",
+                id,
+                error: { code: -32601, message: error.message },
+              })
+            );
+          }
+        });
+      });
+      server.listen(0, "127.0.0.1", () => {
+        rpcUrl = `http://127.0.0.1:${server.address().port}`;
+        done();
+      });
+    });
+
+    after((done) => {
+      server.close(done);
+    });
+
+    it("are reported as ContractRevertError", async () => {
+      const registry = new LightCurateRegistry(REGISTRY, 1, {
+        signer: { type: "privateKey", privateKey: PRIVATE_KEY, rpcUrl },
+      });
+
+      expectRevert(await send(registry));
+    });
+  });
+
+  it("are reported as ContractRevertError for ethers signers", async () => {
+    const logger = new ethers.utils.Logger("test");
+    const receipt = { transactionHash: TX_HASH, status: 0 };
+    // Mimics ethers v5, whose wait() rejects with CALL_EXCEPTION when mined with status 0
+    const signer = {
+      getAddress: async () => transaction.from,
+      getChainId: async () => 1,
+      sendTransaction: async () => ({
+        hash: TX_HASH,
+        wait: async () => {
+          throw logger.makeError(
+            "transaction failed",
+            ethers.utils.Logger.errors.CALL_EXCEPTION,
+            { transactionHash: TX_HASH, receipt }
+          );
+        },
+      }),
+    };
+    const registry = new LightCurateRegistry(REGISTRY, 1, {
+      signer: { type: "ethers", signer },
+    });
+
+    const result = await send(registry);
+    expectRevert(result);
+    expect(result.error.cause).to.equal(receipt);
+  });
+});